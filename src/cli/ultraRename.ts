@@ -0,0 +1,682 @@
+#!/usr/bin/env node
+import { closeSync, openSync, readSync } from "fs";
+import { open, readdir, readFile, rename, stat } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import {
+  ArchiveFormat,
+  COLLISION_POLICY_LABELS,
+  CollisionPolicy,
+  compileNamingRules,
+  CompressionLevel,
+  DEFAULT_COMPRESSION_LEVEL,
+  DEFAULT_RENAME_SETTINGS,
+  EngineFile,
+  FILE_TYPE_CATEGORIES,
+  getArchiveFormat,
+  getFolderPath,
+  getMimeType,
+  getOutputFolder,
+  joinPath,
+  MATCH_MODE_LABELS,
+  MatchMode,
+  NAME_CASE_LABELS,
+  NAME_CASE_TARGET_LABELS,
+  NameCase,
+  NameCaseTarget,
+  NameMapping,
+  NUMBER_POSITION_LABELS,
+  NUMBER_STYLE_LABELS,
+  NumberingRestart,
+  NUMBERING_RESTART_LABELS,
+  NumberPosition,
+  NumberStyle,
+  parseNameMapping,
+  parsePresets,
+  planRenames,
+  readFileMetadata,
+  RenameSettings,
+  SORT_MODE_LABELS,
+  SortMode,
+  TARGET_PLATFORM_LABELS,
+  TargetPlatform,
+  writeArchive,
+} from "../engine";
+
+const USAGE = `Usage: ultra-rename <directory> [options]
+
+Naming:
+  -b, --base <name>          Base name for the {base} token
+  -t, --template <pattern>   Naming template (default "${
+    DEFAULT_RENAME_SETTINGS.nameTemplate
+  }")
+      --find <text>          Use find & replace instead of a template
+      --replace <text>       Replacement for --find
+      --mapping <file>       Take new names from a CSV or JSON list of old
+                             names (or patterns) and new names
+      --match <mode>         ${Object.keys(MATCH_MODE_LABELS).join(" | ")}
+      --case <mode>          ${Object.keys(NAME_CASE_LABELS).join(" | ")}
+      --case-on <name>       ${Object.keys(NAME_CASE_TARGET_LABELS).join(
+        " | "
+      )} (default: generated)
+      --preset <file>        Load settings from an exported presets file
+      --preset-name <name>   Preset to use from the file (default: the first)
+
+Numbering:
+      --start <number>       First number (default: 1)
+      --step <number>        Amount added for each file (default: 1)
+      --pad <digits|auto>    Pad numbers with zeros, auto fits the largest
+      --number-style <style> ${Object.keys(NUMBER_STYLE_LABELS).join(" | ")}
+      --number-at <place>    ${Object.keys(NUMBER_POSITION_LABELS).join(
+        " | "
+      )} (default: template)
+      --number-sep <text>    Separator for numbers added at the start or end
+      --restart <when>       ${Object.keys(NUMBERING_RESTART_LABELS).join(
+        " | "
+      )} (default: never)
+      --restart-per-folder   Same as --restart folder
+
+Files:
+      --type <filter>        all | ${Object.keys(FILE_TYPE_CATEGORIES).join(
+        " | "
+      )}
+      --sort <mode>          ${Object.keys(SORT_MODE_LABELS).join(" | ")}
+      --desc                 Sort in descending order
+      --flatten              Put every file at the top level of the ZIP
+      --fix-extensions       Give files the extension that matches their content
+      --lowercase-ext        Lowercase extensions
+      --normalize-ext        Use one spelling per extension (jpeg → jpg, tif → tiff)
+      --ext <extension>      Replace every extension with this one
+      --on-collision <mode>  ${Object.keys(COLLISION_POLICY_LABELS).join(" | ")}
+      --target <system>      Check names for ${Object.keys(
+        TARGET_PLATFORM_LABELS
+      ).join(" | ")} (default: portable)
+      --auto-fix             Fix names that don't work on the target system
+
+Output (pick one):
+      --dry-run              Show the new names without changing anything (default)
+      --apply                Rename the files in place
+      --archive <file>       Write the renamed files to a .zip, .tar or .tar.gz
+                             archive, picked from the file name
+      --zip <file>           Write the renamed files to a ZIP archive
+      --level <0-9>          Compression level of the archive, 0 stores the
+                             files as they are (default: ${DEFAULT_COMPRESSION_LEVEL})
+  -h, --help                 Show this help`;
+
+type OutputMode = "dry-run" | "apply" | "archive";
+
+interface CliOptions {
+  directory: string;
+  output: OutputMode;
+  archivePath?: string;
+  archiveFormat: ArchiveFormat;
+  compressionLevel: CompressionLevel;
+  presetPath?: string;
+  presetName?: string;
+  mappingPath?: string;
+  // Settings given on the command line, applied on top of any preset
+  overrides: Partial<RenameSettings>;
+}
+
+// A file on disk, read lazily the same way the browser reads a File
+interface DiskEngineFile extends EngineFile {
+  absolutePath: string;
+  slice: (start?: number, end?: number) => Blob;
+  arrayBuffer: () => Promise<ArrayBuffer>;
+}
+
+const fail = (message: string, exitCode = 1): never => {
+  console.error(`ultra-rename: ${message}`);
+  process.exit(exitCode);
+};
+
+const checkChoice = <T extends string>(
+  option: string,
+  value: string,
+  choices: string[]
+): T =>
+  choices.includes(value)
+    ? (value as T)
+    : fail(`${option} must be one of ${choices.join(", ")}`, 2);
+
+const checkWholeNumber = (
+  option: string,
+  value: string,
+  min = -Infinity
+): number => {
+  const number = Number(value);
+  return value.trim() && Number.isInteger(number) && number >= min
+    ? number
+    : fail(
+        `${option} must be a whole number${
+          min === -Infinity ? "" : ` of at least ${min}`
+        }`,
+        2
+      );
+};
+
+const parseArguments = (args: string[]): CliOptions => {
+  const overrides: Partial<RenameSettings> = {};
+  const positional: string[] = [];
+  let output: OutputMode | undefined;
+  let archivePath: string | undefined;
+  let archiveFormat: ArchiveFormat = "zip";
+  let compressionLevel = DEFAULT_COMPRESSION_LEVEL;
+  let presetPath: string | undefined;
+  let presetName: string | undefined;
+  let mappingPath: string | undefined;
+
+  const setOutput = (mode: OutputMode) => {
+    if (output && output !== mode) {
+      fail("Use only one of --dry-run, --apply, --archive and --zip", 2);
+    }
+    output = mode;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const takeValue = () => {
+      const value = args[++i];
+      return value === undefined ? fail(`${arg} needs a value`, 2) : value;
+    };
+
+    switch (arg) {
+      case "-h":
+      case "--help":
+        console.log(USAGE);
+        process.exit(0);
+        break;
+      case "-b":
+      case "--base":
+        overrides.baseFileName = takeValue();
+        break;
+      case "-t":
+      case "--template":
+        overrides.nameTemplate = takeValue();
+        overrides.renameMode = "sequential";
+        break;
+      case "--find":
+        overrides.searchText = takeValue();
+        overrides.renameMode = "replace";
+        break;
+      case "--replace":
+        overrides.replaceText = takeValue();
+        break;
+      case "--mapping":
+        mappingPath = takeValue();
+        overrides.renameMode = "mapping";
+        break;
+      case "--match":
+        overrides.matchMode = checkChoice<MatchMode>(
+          arg,
+          takeValue(),
+          Object.keys(MATCH_MODE_LABELS)
+        );
+        break;
+      case "--case":
+        overrides.nameCase = checkChoice<NameCase>(
+          arg,
+          takeValue(),
+          Object.keys(NAME_CASE_LABELS)
+        );
+        break;
+      case "--case-on":
+        overrides.nameCaseTarget = checkChoice<NameCaseTarget>(
+          arg,
+          takeValue(),
+          Object.keys(NAME_CASE_TARGET_LABELS)
+        );
+        break;
+      case "--preset":
+        presetPath = takeValue();
+        break;
+      case "--preset-name":
+        presetName = takeValue();
+        break;
+      case "--type":
+        overrides.selectedFileType = checkChoice(arg, takeValue(), [
+          "all",
+          ...Object.keys(FILE_TYPE_CATEGORIES),
+        ]);
+        break;
+      case "--sort":
+        overrides.sortMode = checkChoice<SortMode>(
+          arg,
+          takeValue(),
+          Object.keys(SORT_MODE_LABELS)
+        );
+        break;
+      case "--desc":
+        overrides.sortDirection = "desc";
+        break;
+      case "--start":
+        overrides.numberStart = checkWholeNumber(arg, takeValue());
+        break;
+      case "--step":
+        overrides.numberStep = checkWholeNumber(arg, takeValue());
+        break;
+      case "--pad": {
+        const value = takeValue();
+        if (value === "auto") {
+          overrides.autoNumberPadding = true;
+        } else {
+          overrides.numberPadding = checkWholeNumber(arg, value, 0);
+          overrides.autoNumberPadding = false;
+        }
+        break;
+      }
+      case "--number-style":
+        overrides.numberStyle = checkChoice<NumberStyle>(
+          arg,
+          takeValue(),
+          Object.keys(NUMBER_STYLE_LABELS)
+        );
+        break;
+      case "--number-at":
+        overrides.numberPosition = checkChoice<NumberPosition>(
+          arg,
+          takeValue(),
+          Object.keys(NUMBER_POSITION_LABELS)
+        );
+        break;
+      case "--number-sep":
+        overrides.numberSeparator = takeValue();
+        break;
+      case "--restart":
+        overrides.restartNumbering = checkChoice<NumberingRestart>(
+          arg,
+          takeValue(),
+          Object.keys(NUMBERING_RESTART_LABELS)
+        );
+        break;
+      case "--restart-per-folder":
+        overrides.restartNumbering = "folder";
+        break;
+      case "--flatten":
+        overrides.preserveFolders = false;
+        break;
+      case "--fix-extensions":
+        overrides.fixExtensions = true;
+        break;
+      case "--lowercase-ext":
+        overrides.lowercaseExtensions = true;
+        break;
+      case "--normalize-ext":
+        overrides.normalizeExtensionAliases = true;
+        break;
+      case "--ext":
+        overrides.replacementExtension = takeValue();
+        break;
+      case "--on-collision":
+        overrides.collisionPolicy = checkChoice<CollisionPolicy>(
+          arg,
+          takeValue(),
+          Object.keys(COLLISION_POLICY_LABELS)
+        );
+        break;
+      case "--target":
+        overrides.targetPlatform = checkChoice<TargetPlatform>(
+          arg,
+          takeValue(),
+          Object.keys(TARGET_PLATFORM_LABELS)
+        );
+        break;
+      case "--auto-fix":
+        overrides.autoFixNames = true;
+        break;
+      case "--dry-run":
+        setOutput("dry-run");
+        break;
+      case "--apply":
+        setOutput("apply");
+        break;
+      case "--archive": {
+        setOutput("archive");
+        archivePath = takeValue();
+        const format = getArchiveFormat(archivePath);
+        if (!format) {
+          fail("--archive must end in .zip, .tar, .tar.gz or .tgz", 2);
+        }
+        archiveFormat = format as ArchiveFormat;
+        break;
+      }
+      case "--zip":
+        setOutput("archive");
+        archivePath = takeValue();
+        archiveFormat = "zip";
+        break;
+      case "--level": {
+        const level = Number(takeValue());
+        if (!Number.isInteger(level) || level < 0 || level > 9) {
+          fail("--level must be a whole number from 0 to 9", 2);
+        }
+        compressionLevel = level as CompressionLevel;
+        break;
+      }
+      default:
+        if (arg.startsWith("-")) fail(`Unknown option ${arg}`, 2);
+        positional.push(arg);
+    }
+  }
+
+  if (positional.length !== 1) {
+    fail(`Expected one directory\n\n${USAGE}`, 2);
+  }
+
+  return {
+    directory: resolve(positional[0]),
+    output: output || "dry-run",
+    archivePath,
+    archiveFormat,
+    compressionLevel,
+    presetPath,
+    presetName,
+    mappingPath,
+    overrides,
+  };
+};
+
+const loadSettings = async ({
+  presetPath,
+  presetName,
+  overrides,
+}: CliOptions): Promise<RenameSettings> => {
+  if (!presetPath) {
+    return { ...DEFAULT_RENAME_SETTINGS, ...overrides };
+  }
+
+  let id = 0;
+  const presets = parsePresets(
+    await readFile(presetPath, "utf8"),
+    () => `preset-${id++}`
+  );
+  const preset = presetName
+    ? presets.find(({ name }) => name === presetName)
+    : presets[0];
+  if (!preset) {
+    return fail(
+      presetName
+        ? `No preset named ${presetName} in ${presetPath}`
+        : `No presets found in ${presetPath}`
+    );
+  }
+  return { ...preset.settings, ...overrides };
+};
+
+// Read part of a file synchronously, as Blob.slice() has to return at once
+const readRange = (path: string, start: number, end: number): Uint8Array => {
+  const buffer = new Uint8Array(Math.max(end - start, 0));
+  const fd = openSync(path, "r");
+  try {
+    const bytesRead = readSync(fd, buffer, 0, buffer.length, start);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    closeSync(fd);
+  }
+};
+
+// Negative offsets count from the end, like Blob.slice()
+const clampOffset = (offset: number, size: number) =>
+  offset < 0 ? Math.max(size + offset, 0) : Math.min(offset, size);
+
+const createDiskFile = async (
+  absolutePath: string,
+  relativePath: string
+): Promise<DiskEngineFile> => {
+  const stats = await stat(absolutePath);
+  const name = basename(absolutePath);
+  const file: DiskEngineFile = {
+    id: relativePath,
+    name,
+    size: stats.size,
+    type: getMimeType(name),
+    lastModified: Math.floor(stats.mtimeMs),
+    relativePath,
+    absolutePath,
+    slice: (start = 0, end = stats.size) =>
+      new Blob([
+        readRange(
+          absolutePath,
+          clampOffset(start, stats.size),
+          clampOffset(end, stats.size)
+        ),
+      ]),
+    arrayBuffer: async () => {
+      const data = await readFile(absolutePath);
+      return data.buffer.slice(
+        data.byteOffset,
+        data.byteOffset + data.byteLength
+      );
+    },
+  };
+  return Object.assign(file, await readFileMetadata(file));
+};
+
+// List every file in a folder and its subfolders. Paths start with the
+// folder name, like files opened with "Open folder" in the browser.
+const listFiles = async (
+  directory: string,
+  prefix: string = basename(directory)
+): Promise<DiskEngineFile[]> => {
+  const entries = await readdir(directory, { withFileTypes: true });
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+
+  const files: DiskEngineFile[] = [];
+  for (const entry of entries) {
+    const absolutePath = join(directory, entry.name);
+    const relativePath = `${prefix}/${entry.name}`;
+    if (entry.isDirectory()) {
+      files.push(...(await listFiles(absolutePath, relativePath)));
+    } else if (entry.isFile()) {
+      files.push(await createDiskFile(absolutePath, relativePath));
+    }
+  }
+  return files;
+};
+
+const exists = async (path: string) => {
+  try {
+    await stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rename files in two steps through temporary names, so files can swap
+// names within a batch. Existing files are never overwritten, and a file
+// that can't be renamed gets its old name back.
+const applyRenames = async (
+  renames: { file: DiskEngineFile; newName: string }[]
+) => {
+  const staged: {
+    file: DiskEngineFile;
+    newName: string;
+    tempPath: string;
+  }[] = [];
+  let failed = 0;
+
+  for (let index = 0; index < renames.length; index++) {
+    const { file, newName } = renames[index];
+    const tempPath = join(
+      dirname(file.absolutePath),
+      `.ultra-rename-${process.pid}-${index}`
+    );
+    try {
+      await rename(file.absolutePath, tempPath);
+      staged.push({ file, newName, tempPath });
+    } catch (err) {
+      failed++;
+      console.error(`✗ ${file.relativePath}: ${(err as Error).message}`);
+    }
+  }
+
+  for (const { file, newName, tempPath } of staged) {
+    const targetPath = join(dirname(file.absolutePath), newName);
+    try {
+      // Files in the batch have all moved out of the way by now
+      if (await exists(targetPath)) {
+        throw new Error(`A file named ${newName} already exists`);
+      }
+      await rename(tempPath, targetPath);
+      console.log(`✓ ${file.relativePath} → ${newName}`);
+    } catch (err) {
+      failed++;
+      await rename(tempPath, file.absolutePath).catch(() => undefined);
+      console.error(`✗ ${file.relativePath}: ${(err as Error).message}`);
+    }
+  }
+
+  return failed;
+};
+
+const run = async () => {
+  const options = parseArguments(process.argv.slice(2));
+  const settings = await loadSettings(options);
+
+  if (!(await exists(options.directory))) {
+    fail(`${options.directory} does not exist`);
+  }
+
+  let mapping: NameMapping | null = null;
+  if (options.mappingPath) {
+    try {
+      mapping = parseNameMapping(
+        await readFile(options.mappingPath, "utf8"),
+        basename(options.mappingPath)
+      );
+    } catch (err) {
+      fail(`${options.mappingPath}: ${(err as Error).message}`);
+    }
+  }
+
+  const rules = compileNamingRules(settings, mapping);
+  rules.mapping?.errors.forEach((message) => console.error(`! ${message}`));
+  if (settings.numberPosition !== "template" && !rules.addsSequenceNumber) {
+    console.error(
+      "! --number-at only adds numbers in sequential mode, to templates without {n}"
+    );
+  }
+  if (!rules.canGenerateNames) {
+    fail(
+      settings.renameMode === "mapping"
+        ? mapping
+          ? "None of the new names in the mapping can be used"
+          : "Give a mapping file with --mapping"
+        : settings.renameMode === "rules"
+        ? rules.pipeline.errors[0] || "The preset has no rename rules"
+        : rules.templateError ||
+          rules.searchError ||
+          (settings.renameMode === "replace"
+            ? "Enter text to find with --find"
+            : "Please enter a base name with --base")
+    );
+  }
+
+  // Files renamed in place always stay in their own folder
+  const files = await listFiles(options.directory);
+  const {
+    files: plannedFiles,
+    previews,
+    resolution,
+    mapping: mappingMatch,
+  } = planRenames(
+    files,
+    options.output === "archive"
+      ? settings
+      : { ...settings, preserveFolders: true },
+    rules
+  );
+
+  if (plannedFiles.length === 0) {
+    fail("No files to rename");
+  }
+  // Files the mapping doesn't name are left alone
+  mappingMatch?.unmatchedFiles.forEach((file) =>
+    console.log(`- ${file.relativePath}: not in the mapping`)
+  );
+  mappingMatch?.unusedRows.forEach(({ line, from }) =>
+    console.log(`- row ${line} (${from}): matches no file`)
+  );
+  if (settings.collisionPolicy === "error" && resolution.conflicts.size > 0) {
+    const paths = Array.from(new Set(resolution.conflicts.values()));
+    fail(`Name conflict for ${paths.join(", ")}`);
+  }
+
+  // Names that break the target's rules are listed, and block any changes
+  resolution.issues.forEach((issues, id) =>
+    issues.forEach(({ message }) =>
+      console.error(`! ${id} → ${resolution.names.get(id)}: ${message}`)
+    )
+  );
+  if (resolution.issues.size > 0 && options.output !== "dry-run") {
+    fail(
+      `${resolution.issues.size} names break the ${
+        TARGET_PLATFORM_LABELS[settings.targetPlatform]
+      } naming rules. Fix them or use --auto-fix`
+    );
+  }
+
+  const renamed = plannedFiles.filter((file) => resolution.names.has(file.id));
+  resolution.skipped.forEach((id) =>
+    console.log(`- ${id}: skipped, ${previews.get(id)} is already used`)
+  );
+
+  if (options.output === "archive") {
+    // Files are streamed into the archive, so it can be bigger than memory
+    const output = await open(options.archivePath as string, "w");
+    try {
+      await writeArchive(
+        renamed.map((file) => ({
+          path: joinPath(
+            getOutputFolder(file, settings.preserveFolders),
+            resolution.names.get(file.id) as string
+          ),
+          file,
+        })),
+        {
+          write: async (chunk) => {
+            await output.write(chunk);
+          },
+        },
+        options.archiveFormat,
+        { level: options.compressionLevel }
+      );
+    } finally {
+      await output.close();
+    }
+    console.log(`Wrote ${renamed.length} files to ${options.archivePath}`);
+    return;
+  }
+
+  const changes = renamed
+    .map((file) => ({
+      file,
+      newName: resolution.names.get(file.id) as string,
+    }))
+    .filter(({ file, newName }) => newName !== file.name);
+
+  if (options.output === "dry-run") {
+    changes.forEach(({ file, newName }) =>
+      console.log(
+        `${file.relativePath} → ${joinPath(
+          getFolderPath(file.relativePath),
+          newName
+        )}`
+      )
+    );
+    console.log(
+      `${changes.length} files would be renamed. Run with --apply to rename them.`
+    );
+    return;
+  }
+
+  const failed = await applyRenames(changes);
+  console.log(
+    failed > 0
+      ? `Renamed ${changes.length - failed} files, ${failed} failed`
+      : `Renamed ${changes.length} files`
+  );
+  if (failed > 0) process.exitCode = 1;
+};
+
+run().catch((err) => fail(err instanceof Error ? err.message : String(err)));
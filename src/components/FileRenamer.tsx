@@ -1,11 +1,5 @@
-import React, {
-  useState,
-  useCallback,
-  useEffect,
-  useRef,
-  useMemo,
-} from "react";
-import { useDropzone } from "react-dropzone";
+import React, { useState, useEffect, useRef, useMemo } from "react";
+import { FileWithPath, useDropzone } from "react-dropzone";
 import { motion, AnimatePresence } from "framer-motion";
 import {
   FiUpload,
@@ -28,8 +22,133 @@ import {
   FiHelpCircle,
   FiBarChart2,
   FiInfo,
+  FiRotateCcw,
+  FiRotateCw,
+  FiFolderPlus,
+  FiHardDrive,
+  FiMove,
+  FiEdit2,
+  FiLock,
+  FiSave,
+  FiBookmark,
+  FiArrowUp,
+  FiArrowDown,
+  FiType,
+  FiSliders,
+  FiPlus,
 } from "react-icons/fi";
-import JSZip from "jszip";
+import {
+  ARCHIVE_FORMAT_LABELS,
+  ARCHIVE_NAME_FIELDS,
+  ArchiveFormat,
+  COMPRESSION_LEVEL_LABELS,
+  CompressionLevel,
+  compileNamingRules,
+  createRenameRule,
+  DEFAULT_ARCHIVE_DEPTH,
+  DEFAULT_ARCHIVE_NAME,
+  DEFAULT_COMPRESSION_LEVEL,
+  ExtractionResult,
+  filterFilesByType,
+  formatArchiveName,
+  getFolderGroups,
+  getMimeType,
+  getOutputFolder,
+  hasExtensionMismatch,
+  isArchiveFileName,
+  isCompressedFormat,
+  MANIFEST_FORMAT_LABELS,
+  ManifestFormat,
+  mergePresets,
+  NameMapping,
+  normalizeSettings,
+  parseNameMapping,
+  parsePresets,
+  planRenames,
+  PRESETS_STORAGE_KEY,
+  readFileMetadata,
+  RENAME_RULE_LABELS,
+  RenameMode,
+  resolveNames,
+  RenamePreset,
+  RenameRule,
+  RenameRuleKind,
+  RenameSettings,
+  RULE_POSITION_LABELS,
+  RulePosition,
+  FileSignature,
+  serializePresets,
+} from "../engine";
+import {
+  AUDIO_TAG_NAMES,
+  AudioTagName,
+  AudioTags,
+  ESSENTIAL_AUDIO_TAGS,
+  getMissingAudioTags,
+} from "../utils/audioTags";
+import { COLLISION_POLICY_LABELS, CollisionPolicy } from "../utils/collisions";
+import { ExifData } from "../utils/exif";
+import {
+  isFileSystemAccessSupported,
+  isSaveFilePickerSupported,
+  listDirectoryFiles,
+  pickDirectory,
+  pickSaveFile,
+  renameBatchOnDisk,
+  WritableFileStream,
+} from "../utils/fileSystemAccess";
+import {
+  FileOperation,
+  redoOperation,
+  undoOperation,
+} from "../utils/fileOperations";
+import {
+  getFolderPath,
+  joinPath,
+  normalizeRelativePath,
+  sanitizeFileName,
+} from "../utils/fileNames";
+import {
+  MATCH_MODE_LABELS,
+  MatchMode,
+  buildSearchPattern,
+} from "../utils/findReplace";
+import {
+  moveItem,
+  SORT_MODE_LABELS,
+  SortDirection,
+  SortMode,
+  sortFiles,
+} from "../utils/fileSorting";
+import {
+  NAME_CASE_LABELS,
+  NAME_CASE_TARGET_LABELS,
+  NameCase,
+  NameCaseTarget,
+} from "../utils/nameCase";
+import {
+  NameIssue,
+  TARGET_PLATFORM_LABELS,
+  TargetPlatform,
+} from "../utils/nameValidation";
+import {
+  DEFAULT_TEMPLATE,
+  TEMPLATE_FIELDS,
+  templateUsesField,
+} from "../utils/namingTemplate";
+import {
+  NUMBER_POSITION_LABELS,
+  NUMBER_STYLE_LABELS,
+  NumberingRestart,
+  NUMBERING_RESTART_LABELS,
+  NumberPosition,
+  NumberStyle,
+} from "../utils/numbering";
+import {
+  buildArchiveInWorker,
+  extractArchiveInWorker,
+} from "../workers/archiveService";
+import VirtualGrid from "./VirtualGrid";
 
 // Define a custom type that includes all File properties
 type CustomFile = {
@@ -44,8 +163,23 @@ type CustomFile = {
 };
 
 interface FileWithPreview extends CustomFile {
+  // Unique id assigned when the file is added
+  id: string;
   preview?: string;
   newName?: string;
+  // Path of the file inside the dropped folder or archive
+  relativePath?: string;
+  // EXIF metadata for photos, null when the file has none
+  exif?: ExifData | null;
+  // ID3, Vorbis or RIFF INFO tags for audio files, null when there are none
+  audioTags?: AudioTags | null;
+  // Handles for files opened from disk, used to rename them in place
+  handle?: FileSystemFileHandle;
+  directoryHandle?: FileSystemDirectoryHandle;
+  // Set for names picked by hand, which batch renames leave alone
+  pinned?: boolean;
+  // Type detected from the first bytes, null when unknown
+  signature?: FileSignature | null;
 }
 
 interface HistoryEntry {
@@ -53,6 +187,14 @@ interface HistoryEntry {
   oldName: string;
   newName: string;
   fileType: string;
+  // Entries made by the same rename share a batch id
+  batchId?: string;
+  fileId?: string;
+  // The new name the file had before this rename, if any
+  previousName?: string;
+  // Outcome of renames applied on disk
+  status?: "success" | "error";
+  message?: string;
 }
 
 // Toast interface
@@ -63,6 +205,15 @@ interface Toast {
   duration?: number;
 }
 
+// A long operation shown with a progress bar and a Cancel button
+interface Activity {
+  label: string;
+  processed: number;
+  total: number;
+  // Whether processed and total count bytes or files
+  unit: "bytes" | "files";
+}
+
 interface Analytics {
   weekStartDate: string;
   totalFiles: number;
@@ -86,6 +237,29 @@ interface Analytics {
   totalSizeProcessed: number;
 }
 
+// Limits on the files that can be added, which can be changed in the UI
+interface FileLimits {
+  maxFiles: number;
+  // Largest single file in bytes
+  maxFileSize: number;
+  // How many levels of archives inside dropped archives are opened
+  maxArchiveDepth: number;
+}
+
+const DEFAULT_FILE_LIMITS: FileLimits = {
+  maxFiles: 10000,
+  maxFileSize: 4 * 1024 * 1024 * 1024,
+  maxArchiveDepth: DEFAULT_ARCHIVE_DEPTH,
+};
+
+const LIMITS_STORAGE_KEY = "fileRenameLimits";
+
+// Shortest time in milliseconds between two updates of the activity bar
+const ACTIVITY_UPDATE_INTERVAL = 100;
+
+// Most unmatched files, unused rows or errors listed for a mapping
+const MAPPING_LIST_LIMIT = 50;
+
 interface DataTransferItem {
   webkitGetAsEntry: () => FileSystemEntry | null;
 }
@@ -99,6 +273,54 @@ const getWeekStartDate = () => {
   return startOfWeek.toISOString().split("T")[0];
 };
 
+// Helper function to create a unique id for files and rename batches
+const createUniqueId = () =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+// Helper function to guess a file's type until its content has been read
+const getFileType = (fileName: string, type?: string) =>
+  type || getMimeType(fileName) || "application/octet-stream";
+
+// Helper function to save a blob through a temporary download link
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Helper function to open somewhere to stream a download into: a file on
+// disk where the browser allows it, otherwise a Blob that is downloaded
+// once it's complete
+const openDownloadStream = async (
+  fileName: string
+): Promise<WritableFileStream> => {
+  if (isSaveFilePickerSupported()) {
+    return pickSaveFile(fileName);
+  }
+  let parts: BlobPart[] = [];
+  return {
+    write: async (data) => {
+      parts.push(data);
+    },
+    close: async () => downloadBlob(new Blob(parts), fileName),
+    abort: async () => {
+      parts = [];
+    },
+  };
+};
+
+// Helper function to stop a long operation once it's cancelled
+const throwIfCancelled = (signal: AbortSignal) => {
+  if (signal.aborted) {
+    throw new DOMException("The operation was cancelled", "AbortError");
+  }
+};
+
 // Helper function to toggle body scroll
 const toggleBodyScroll = (disable: boolean) => {
   if (disable) {
@@ -111,19 +333,84 @@ const toggleBodyScroll = (disable: boolean) => {
 const FileRenamer: React.FC = () => {
   const [files, setFiles] = useState<FileWithPreview[]>([]);
   const [baseFileName, setBaseFileName] = useState("");
+  const [nameTemplate, setNameTemplate] = useState(DEFAULT_TEMPLATE);
+  const [renameMode, setRenameMode] = useState<RenameMode>("sequential");
+  const [renameRules, setRenameRules] = useState<RenameRule[]>([]);
+  // Kind of rule the Add rule button adds
+  const [newRuleKind, setNewRuleKind] = useState<RenameRuleKind>("insert");
+  const [searchText, setSearchText] = useState("");
+  const [replaceText, setReplaceText] = useState("");
+  const [matchMode, setMatchMode] = useState<MatchMode>("text");
+  const [groupByFolder, setGroupByFolder] = useState(false);
+  const [numberStart, setNumberStart] = useState(1);
+  const [numberStep, setNumberStep] = useState(1);
+  const [numberPadding, setNumberPadding] = useState(0);
+  const [autoNumberPadding, setAutoNumberPadding] = useState(false);
+  const [numberStyle, setNumberStyle] = useState<NumberStyle>("numbers");
+  const [numberPosition, setNumberPosition] =
+    useState<NumberPosition>("template");
+  const [numberSeparator, setNumberSeparator] = useState("_");
+  const [restartNumbering, setRestartNumbering] =
+    useState<NumberingRestart>("never");
+  const [preserveFolders, setPreserveFolders] = useState(true);
+  const [archiveFormat, setArchiveFormat] = useState<ArchiveFormat>("zip");
+  const [compressionLevel, setCompressionLevel] = useState<CompressionLevel>(
+    DEFAULT_COMPRESSION_LEVEL
+  );
+  const [archiveName, setArchiveName] = useState(DEFAULT_ARCHIVE_NAME);
+  const [manifestFormat, setManifestFormat] = useState<ManifestFormat>("none");
+  const [includeRenameScripts, setIncludeRenameScripts] = useState(false);
+  const [overwritePinned, setOverwritePinned] = useState(false);
+  const [fixExtensions, setFixExtensions] = useState(false);
+  const [lowercaseExtensions, setLowercaseExtensions] = useState(false);
+  const [normalizeExtensionAliases, setNormalizeExtensionAliases] =
+    useState(false);
+  const [replacementExtension, setReplacementExtension] = useState("");
+  const [nameCase, setNameCase] = useState<NameCase>("none");
+  const [nameCaseTarget, setNameCaseTarget] =
+    useState<NameCaseTarget>("generated");
+  const [targetPlatform, setTargetPlatform] =
+    useState<TargetPlatform>("portable");
+  const [autoFixNames, setAutoFixNames] = useState(false);
+  const [editingFileId, setEditingFileId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+  // Set when Escape should discard the name being edited
+  const cancelNameEdit = useRef(false);
+  const [sortMode, setSortMode] = useState<SortMode>("manual");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("asc");
+  const [draggedFileId, setDraggedFileId] = useState<string | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+  const [collisionPolicy, setCollisionPolicy] =
+    useState<CollisionPolicy>("suffix");
   const [isDragging, setIsDragging] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState<{
-    [key: string]: number;
-  }>({});
+  const [activity, setActivity] = useState<Activity | null>(null);
+  // Cancels the running activity
+  const activityController = useRef<AbortController | null>(null);
+  const lastActivityUpdate = useRef(0);
   const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [presets, setPresets] = useState<RenamePreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const presetFileInput = useRef<HTMLInputElement>(null);
+  // Old and new names imported from a spreadsheet, used in mapping mode
+  const [nameMapping, setNameMapping] = useState<NameMapping | null>(null);
+  const mappingFileInput = useRef<HTMLInputElement>(null);
+  const [undoStack, setUndoStack] = useState<FileOperation<FileWithPreview>[]>(
+    []
+  );
+  const [redoStack, setRedoStack] = useState<FileOperation<FileWithPreview>[]>(
+    []
+  );
+  const previewUrls = useRef<Set<string>>(new Set());
   const [isRenaming, setIsRenaming] = useState(false);
+  const [isApplyingToDisk, setIsApplyingToDisk] = useState(false);
   const [showHistory, setShowHistory] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [toasts, setToasts] = useState<Toast[]>([]);
-  const progressIntervals = useRef<{ [key: string]: NodeJS.Timeout }>({});
   const [selectedFileType, setSelectedFileType] = useState<string>("all");
   const [showHelp, setShowHelp] = useState(false);
   const [showAnalytics, setShowAnalytics] = useState(false);
+  const [showLimits, setShowLimits] = useState(false);
+  const [fileLimits, setFileLimits] = useState<FileLimits>(DEFAULT_FILE_LIMITS);
   const [analytics, setAnalytics] = useState<Analytics>({
     weekStartDate: getWeekStartDate(),
     totalFiles: 0,
@@ -142,10 +429,8 @@ const FileRenamer: React.FC = () => {
     totalSizeProcessed: 0,
   });
 
-  // Add constant for max file size (100MB in bytes)
-  const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB in bytes
-  // Add constant for max files
-  const MAX_FILES = 20;
+  // Number of operations that can be undone
+  const MAX_UNDO_STEPS = 50;
 
   // Toast functions
   const showToast = (
@@ -169,6 +454,53 @@ const FileRenamer: React.FC = () => {
     setToasts((prev) => prev.filter((t) => t.id !== id));
   };
 
+  const updateToast = (id: string, message: string) => {
+    setToasts((prev) => prev.map((t) => (t.id === id ? { ...t, message } : t)));
+  };
+
+  // Activity functions. Only one long operation runs at a time.
+  const startActivity = (label: string, unit: Activity["unit"]) => {
+    const controller = new AbortController();
+    activityController.current = controller;
+    lastActivityUpdate.current = 0;
+    setActivity({ label, unit, processed: 0, total: 0 });
+    return controller.signal;
+  };
+
+  const updateActivity = (update: Partial<Activity>) => {
+    // Progress can arrive for every chunk, so re-render a few times a second
+    const now = Date.now();
+    if (
+      now - lastActivityUpdate.current < ACTIVITY_UPDATE_INTERVAL &&
+      update.processed !== update.total
+    ) {
+      return;
+    }
+    lastActivityUpdate.current = now;
+    setActivity((prev) => (prev ? { ...prev, ...update } : prev));
+  };
+
+  const finishActivity = () => {
+    activityController.current = null;
+    setActivity(null);
+  };
+
+  const handleCancelActivity = () => {
+    activityController.current?.abort();
+  };
+
+  // Check that nothing else is running before starting an activity
+  const isActivityRunning = () => {
+    if (activityController.current) {
+      showToast(
+        "Wait for the current operation to finish or cancel it first.",
+        "error"
+      );
+      return true;
+    }
+    return false;
+  };
+
   // Load history from localStorage on mount
   useEffect(() => {
     try {
@@ -190,66 +522,251 @@ const FileRenamer: React.FC = () => {
     }
   }, [history]);
 
-  // Cleanup function for progress intervals and file previews
+  // Load presets from localStorage on mount
   useEffect(() => {
-    return () => {
-      // Clear all intervals
-      Object.values(progressIntervals.current).forEach(clearInterval);
-      // Revoke all object URLs
-      files.forEach((file) => {
-        if (file.preview) {
-          URL.revokeObjectURL(file.preview);
-        }
-      });
-    };
-  }, [files]);
-
-  // Group files by type
-  const fileGroups = useMemo(() => {
-    const groups: { [key: string]: FileWithPreview[] } = {
-      images: files.filter((f) => f.type.startsWith("image/")),
-      videos: files.filter((f) => f.type.startsWith("video/")),
-      audio: files.filter((f) => f.type.startsWith("audio/")),
-      documents: files.filter(
-        (f) =>
-          f.type.includes("pdf") ||
-          f.type.includes("word") ||
-          f.type.includes("excel") ||
-          f.type.includes("text/plain")
-      ),
-      others: files.filter(
-        (f) =>
-          !f.type.startsWith("image/") &&
-          !f.type.startsWith("video/") &&
-          !f.type.startsWith("audio/") &&
-          !f.type.includes("pdf") &&
-          !f.type.includes("word") &&
-          !f.type.includes("excel") &&
-          !f.type.includes("text/plain")
-      ),
-    };
-    return groups;
-  }, [files]);
+    try {
+      const savedPresets = localStorage.getItem(PRESETS_STORAGE_KEY);
+      if (savedPresets) {
+        // Presets saved by older versions may miss newer settings
+        setPresets(
+          (JSON.parse(savedPresets) as RenamePreset[]).map((preset) => ({
+            ...preset,
+            settings: normalizeSettings(preset.settings),
+          }))
+        );
+      }
+    } catch (err) {
+      console.error("Failed to load presets:", err);
+    }
+  }, []);
+
+  // Save presets to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+    } catch (err) {
+      console.error("Failed to save presets:", err);
+    }
+  }, [presets]);
+
+  // Load the file limits from localStorage on mount
+  useEffect(() => {
+    try {
+      const savedLimits = localStorage.getItem(LIMITS_STORAGE_KEY);
+      if (savedLimits) {
+        const { maxFiles, maxFileSize, maxArchiveDepth } =
+          JSON.parse(savedLimits);
+        setFileLimits({
+          maxFiles: maxFiles > 0 ? maxFiles : DEFAULT_FILE_LIMITS.maxFiles,
+          maxFileSize:
+            maxFileSize > 0 ? maxFileSize : DEFAULT_FILE_LIMITS.maxFileSize,
+          maxArchiveDepth:
+            maxArchiveDepth >= 0
+              ? maxArchiveDepth
+              : DEFAULT_FILE_LIMITS.maxArchiveDepth,
+        });
+      }
+    } catch (err) {
+      console.error("Failed to load file limits:", err);
+    }
+  }, []);
+
+  // Save the file limits to localStorage whenever they change
+  useEffect(() => {
+    try {
+      localStorage.setItem(LIMITS_STORAGE_KEY, JSON.stringify(fileLimits));
+    } catch (err) {
+      console.error("Failed to save file limits:", err);
+    }
+  }, [fileLimits]);
+
+  // Revoke file previews once neither the file list nor the undo/redo
+  // stacks can bring their files back
+  useEffect(() => {
+    const referenced = new Set<string>();
+    const addPreview = (file: FileWithPreview) =>
+      file.preview && referenced.add(file.preview);
+    files.forEach(addPreview);
+    [...undoStack, ...redoStack].forEach((operation) => {
+      if (operation.kind === "remove") {
+        operation.removed.forEach(({ item }) => addPreview(item));
+      }
+    });
+
+    previewUrls.current.forEach((url) => {
+      if (!referenced.has(url)) URL.revokeObjectURL(url);
+    });
+    previewUrls.current = referenced;
+  }, [files, undoStack, redoStack]);
+
+  // Revoke all object URLs on unmount
+  useEffect(() => {
+    const urls = previewUrls;
+    return () => urls.current.forEach((url) => URL.revokeObjectURL(url));
+  }, []);
 
-  // Get filtered files based on selected type
-  const filteredFiles = useMemo(() => {
-    if (selectedFileType === "all") return files;
-    return fileGroups[selectedFileType] || [];
-  }, [files, selectedFileType, fileGroups]);
+  // The naming settings as one object, as used by the engine and presets
+  const currentSettings = useMemo(
+    (): RenameSettings => ({
+      baseFileName,
+      nameTemplate,
+      renameMode,
+      renameRules,
+      searchText,
+      replaceText,
+      matchMode,
+      selectedFileType,
+      sortMode,
+      sortDirection,
+      groupByFolder,
+      numberStart,
+      numberStep,
+      numberPadding,
+      autoNumberPadding,
+      numberStyle,
+      numberPosition,
+      numberSeparator,
+      restartNumbering,
+      preserveFolders,
+      collisionPolicy,
+      overwritePinned,
+      fixExtensions,
+      lowercaseExtensions,
+      normalizeExtensionAliases,
+      replacementExtension,
+      nameCase,
+      nameCaseTarget,
+      targetPlatform,
+      autoFixNames,
+    }),
+    [
+      baseFileName,
+      nameTemplate,
+      renameMode,
+      renameRules,
+      searchText,
+      replaceText,
+      matchMode,
+      selectedFileType,
+      sortMode,
+      sortDirection,
+      groupByFolder,
+      numberStart,
+      numberStep,
+      numberPadding,
+      autoNumberPadding,
+      numberStyle,
+      numberPosition,
+      numberSeparator,
+      restartNumbering,
+      preserveFolders,
+      collisionPolicy,
+      overwritePinned,
+      fixExtensions,
+      lowercaseExtensions,
+      normalizeExtensionAliases,
+      replacementExtension,
+      nameCase,
+      nameCaseTarget,
+      targetPlatform,
+      autoFixNames,
+    ]
+  );
+
+  // Parse the template and search pattern so they can be validated as the
+  // user types
+  const namingRules = useMemo(
+    () => compileNamingRules(currentSettings, nameMapping),
+    [currentSettings, nameMapping]
+  );
+  const {
+    parsedTemplate,
+    templateError,
+    requiresBaseName,
+    searchError,
+    mapping: compiledMapping,
+    pipeline,
+    canGenerateNames,
+  } = namingRules;
+
+  // Visible files in numbering order with their generated names, resolved
+  // against each other using the collision policy
+  const renamePlan = useMemo(
+    () => planRenames(files, currentSettings, namingRules),
+    [files, currentSettings, namingRules]
+  );
+  const {
+    files: filteredFiles,
+    previews: previewNames,
+    resolution: nameResolution,
+    mapping: mappingMatch,
+    ruleSteps,
+  } = renamePlan;
 
   // Get file type counts
   const fileTypeCounts = useMemo(
     () => ({
       all: files.length,
-      images: fileGroups.images.length,
-      videos: fileGroups.videos.length,
-      audio: fileGroups.audio.length,
-      documents: fileGroups.documents.length,
-      others: fileGroups.others.length,
+      images: filterFilesByType(files, "images").length,
+      videos: filterFilesByType(files, "videos").length,
+      audio: filterFilesByType(files, "audio").length,
+      documents: filterFilesByType(files, "documents").length,
+      others: filterFilesByType(files, "others").length,
     }),
-    [files, fileGroups]
+    [files]
+  );
+
+  // Numbers only go before or after names made by a template without {n}
+  const canPlaceNumber =
+    renameMode === "sequential" && !templateUsesField(parsedTemplate, "n");
+
+  // Report the audio tags the template needs, or the essential ones
+  const reportedAudioTags = useMemo(() => {
+    const used = AUDIO_TAG_NAMES.filter((name) =>
+      templateUsesField(parsedTemplate, name)
+    );
+    return used.length > 0 ? used : ESSENTIAL_AUDIO_TAGS;
+  }, [parsedTemplate]);
+
+  const getAudioTagReport = (file: FileWithPreview): AudioTagName[] =>
+    file.type.startsWith("audio/")
+      ? getMissingAudioTags(file.audioTags, reportedAudioTags)
+      : [];
+
+  // Group the visible files by the folder they came from
+  const folderGroups = useMemo(
+    () => getFolderGroups(filteredFiles),
+    [filteredFiles]
+  );
+
+  const hasFolders = folderGroups.some(({ folder }) => folder !== "");
+
+  // Sections of the file grid, one per folder when grouping by folder
+  const gridGroups = useMemo(
+    () =>
+      groupByFolder
+        ? folderGroups.map(({ folder, files: folderFiles }) => ({
+            key: folder,
+            header: (
+              <h3 className="text-sm font-medium text-gray-300 flex items-center gap-2">
+                <FiFolder className="text-primary" />
+                {folder || "Top level"}
+                <span className="text-gray-500">({folderFiles.length})</span>
+              </h3>
+            ),
+            items: folderFiles,
+          }))
+        : [{ key: "all", items: filteredFiles }],
+    [groupByFolder, folderGroups, filteredFiles]
   );
 
+  // Files opened with "Open folder" can be renamed where they are
+  const hasDiskFiles = files.some((file) => file.handle);
+
+  const hasPinnedFiles = files.some((file) => file.pinned);
+
+  const hasMismatchedFiles = files.some(hasExtensionMismatch);
+
   const getFileIcon = (fileType: string) => {
     if (fileType.startsWith("image/"))
       return <FiImage className="w-6 h-6 text-blue-400" />;
@@ -266,101 +783,99 @@ const FileRenamer: React.FC = () => {
     return <FiFile className="w-6 h-6 text-gray-400" />;
   };
 
-  const getFileType = (file: File): string => {
-    if (!file.type) {
-      // Try to determine type from extension
-      const ext = file.name.split(".").pop()?.toLowerCase() || "";
-      switch (ext) {
-        case "jpg":
-        case "jpeg":
-        case "png":
-        case "gif":
-          return "image/" + ext;
-        case "mp4":
-        case "webm":
-          return "video/" + ext;
-        case "mp3":
-        case "wav":
-          return "audio/" + ext;
-        case "pdf":
-          return "application/pdf";
-        case "doc":
-        case "docx":
-          return "application/msword";
-        case "xls":
-        case "xlsx":
-          return "application/vnd.ms-excel";
-        default:
-          return "application/octet-stream";
-      }
+  // Wrap a browser File so it can be renamed and previewed
+  const toFileWithPreview = (
+    file: File,
+    relativePath?: string
+  ): FileWithPreview => {
+    const customFile: FileWithPreview = {
+      id: createUniqueId(),
+      name: file.name,
+      size: file.size,
+      type: getFileType(file.name, file.type),
+      lastModified: file.lastModified,
+      relativePath: normalizeRelativePath(relativePath),
+      slice: file.slice.bind(file),
+      arrayBuffer: file.arrayBuffer.bind(file),
+      stream: file.stream.bind(file),
+      text: file.text.bind(file),
+    };
+
+    if (customFile.type.startsWith("image/")) {
+      customFile.preview = URL.createObjectURL(file);
     }
-    return file.type;
+
+    return customFile;
   };
 
-  const extractZipContents = async (file: File): Promise<FileWithPreview[]> => {
+  // Read the files out of an archive, along with the archives inside it.
+  // Archives that can't be opened are added as they are and reported.
+  const extractArchiveContents = async (
+    file: File,
+    toastId: string,
+    signal: AbortSignal
+  ): Promise<FileWithPreview[]> => {
+    throwIfCancelled(signal);
+    updateToast(toastId, `Extracting ${file.name}...`);
+    updateActivity({ label: `Extracting ${file.name}`, unit: "files" });
+    // Unpacking happens in the archive worker, so the page stays responsive
+    const task = extractArchiveInWorker(file, {
+      maxDepth: fileLimits.maxArchiveDepth,
+      onProgress: (extracted, total) =>
+        updateActivity({ processed: extracted, total }),
+    });
+    const cancelTask = () => task.cancel();
+    signal.addEventListener("abort", cancelTask);
+    let result: ExtractionResult;
     try {
-      const zip = new JSZip();
-      const contents = await zip.loadAsync(file);
-      const extractedFiles: FileWithPreview[] = [];
-
-      for (const [path, zipEntry] of Object.entries(contents.files)) {
-        // Skip directories
-        if (zipEntry.dir) continue;
-
-        // Get the file data as array buffer
-        const data = await zipEntry.async("arraybuffer");
-        const blob = new Blob([data], { type: getFileTypeFromName(path) });
-
-        const customFile: FileWithPreview = {
-          name: path.split("/").pop() || path,
-          size: blob.size,
-          type: getFileTypeFromName(path),
-          lastModified: Date.now(),
-          slice: blob.slice.bind(blob),
-          arrayBuffer: blob.arrayBuffer.bind(blob),
-          stream: blob.stream.bind(blob),
-          text: blob.text.bind(blob),
-        };
-
-        if (customFile.type.startsWith("image/")) {
-          customFile.preview = URL.createObjectURL(blob);
-        }
-
-        extractedFiles.push(customFile);
-      }
-
-      return extractedFiles;
+      result = await task.result;
     } catch (error) {
-      console.error("Error extracting ZIP:", error);
-      throw new Error("Failed to extract ZIP file contents");
+      if (signal.aborted) throw error;
+      console.error("Error extracting archive:", error);
+      throw new Error(`Failed to extract ${file.name}`);
+    } finally {
+      signal.removeEventListener("abort", cancelTask);
     }
-  };
 
-  const getFileTypeFromName = (filename: string): string => {
-    const ext = filename.split(".").pop()?.toLowerCase() || "";
-    switch (ext) {
-      case "jpg":
-      case "jpeg":
-        return "image/jpeg";
-      case "png":
-        return "image/png";
-      case "gif":
-        return "image/gif";
-      case "mp4":
-        return "video/mp4";
-      case "mp3":
-        return "audio/mp3";
-      case "pdf":
-        return "application/pdf";
-      case "doc":
-      case "docx":
-        return "application/msword";
-      case "xls":
-      case "xlsx":
-        return "application/vnd.ms-excel";
-      default:
-        return "application/octet-stream";
+    const { opened, files: extractedFiles, problems } = result;
+    if (problems.length > 0) {
+      showToast(
+        `Couldn't open ${problems.length} ${
+          problems.length === 1 ? "archive" : "archives"
+        }: ${problems
+          .map(({ path, message }) => `${path} ${message}`)
+          .join("; ")}`,
+        "error",
+        8000
+      );
+    }
+    if (!opened) {
+      return [toFileWithPreview(file, (file as FileWithPath).path)];
     }
+
+    return extractedFiles.map(({ path, blob: data, lastModified }) => {
+      const blob = new Blob([data], { type: getFileType(path) });
+      const relativePath = normalizeRelativePath(path);
+
+      const customFile: FileWithPreview = {
+        id: createUniqueId(),
+        name: relativePath?.split("/").pop() || path,
+        size: blob.size,
+        type: getFileType(path),
+        lastModified,
+        relativePath,
+        slice: blob.slice.bind(blob),
+        arrayBuffer: blob.arrayBuffer.bind(blob),
+        stream: blob.stream.bind(blob),
+        text: blob.text.bind(blob),
+      };
+
+      if (customFile.type.startsWith("image/")) {
+        customFile.preview = URL.createObjectURL(blob);
+      }
+
+      return customFile;
+    });
   };
 
   const processDirectoryEntry = async (
@@ -373,22 +888,7 @@ const FileRenamer: React.FC = () => {
         const fileEntry = entry as FileSystemFileEntry;
         return new Promise<void>((resolve) => {
           fileEntry.file(async (file) => {
-            const customFile: FileWithPreview = {
-              name: file.name,
-              size: file.size,
-              type: getFileType(file),
-              lastModified: file.lastModified,
-              slice: file.slice.bind(file),
-              arrayBuffer: file.arrayBuffer.bind(file),
-              stream: file.stream.bind(file),
-              text: file.text.bind(file),
-            };
-
-            if (customFile.type.startsWith("image/")) {
-              customFile.preview = URL.createObjectURL(file);
-            }
-
-            files.push(customFile);
+            files.push(toFileWithPreview(file, entry.fullPath));
             resolve();
           });
         });
@@ -418,136 +918,158 @@ const FileRenamer: React.FC = () => {
     return files;
   };
 
-  const onDrop = useCallback(
-    async (acceptedFiles: File[]) => {
-      try {
-        let newFiles: FileWithPreview[] = [];
-        const toastId = showToast("Processing files...", "loading");
-
-        // Process each dropped item
-        for (const file of acceptedFiles) {
-          // Check if it's a ZIP file
-          if (
-            file.type === "application/zip" ||
-            file.name.toLowerCase().endsWith(".zip")
-          ) {
-            const extractedFiles = await extractZipContents(file);
-            newFiles = [...newFiles, ...extractedFiles];
-            continue;
-          }
+  // Read metadata such as EXIF or audio tags from the file contents
+  const loadFileMetadata = async (
+    file: FileWithPreview,
+    onRead: (bytes: number) => void
+  ) => {
+    Object.assign(file, await readFileMetadata(file, onRead));
+    // Images that were only recognised from their content
+    if (!file.preview && file.type.startsWith("image/")) {
+      file.preview = URL.createObjectURL(file.slice(0, file.size, file.type));
+    }
+  };
 
-          // Handle regular files
-          const customFile: FileWithPreview = {
-            name: file.name,
-            size: file.size,
-            type: getFileType(file),
-            lastModified: file.lastModified,
-            slice: file.slice.bind(file),
-            arrayBuffer: file.arrayBuffer.bind(file),
-            stream: file.stream.bind(file),
-            text: file.text.bind(file),
-          };
-
-          if (customFile.type.startsWith("image/")) {
-            customFile.preview = URL.createObjectURL(file);
-          }
+  // Check limits, read metadata and add new files to the list
+  const addFiles = async (
+    newFiles: FileWithPreview[],
+    toastId: string,
+    signal: AbortSignal
+  ) => {
+    // Check total number of files
+    if (files.length + newFiles.length > fileLimits.maxFiles) {
+      removeToast(toastId);
+      setError(
+        `Cannot exceed ${fileLimits.maxFiles} files total. Please remove some files first or raise the limit.`
+      );
+      showToast(
+        `Maximum ${fileLimits.maxFiles} files allowed in total. You currently have ${files.length} files.`,
+        "error",
+        5000
+      );
+      return;
+    }
 
-          newFiles.push(customFile);
-        }
+    // Validate file sizes
+    const oversizedFiles = newFiles.filter(
+      (file) => file.size > fileLimits.maxFileSize
+    );
+    if (oversizedFiles.length > 0) {
+      const fileNames = oversizedFiles.map((f) => f.name).join(", ");
+      const maxSize = formatFileSize(fileLimits.maxFileSize);
+      setError(`Files exceeding ${maxSize} limit: ${fileNames}`);
+      showToast(
+        `Files larger than ${maxSize} are not allowed: ${fileNames}`,
+        "error",
+        5000
+      );
+      // Filter out oversized files
+      newFiles = newFiles.filter((file) => file.size <= fileLimits.maxFileSize);
+    }
 
-        // Handle folders through DataTransfer items
-        const dataTransfer = (acceptedFiles[0] as any).dataTransfer;
-        if (dataTransfer?.items) {
-          for (const item of Array.from(
-            dataTransfer.items
-          ) as DataTransferItem[]) {
-            const entry = item.webkitGetAsEntry();
-            if (entry?.isDirectory) {
-              const folderFiles = await processDirectoryEntry(entry);
-              newFiles = [...newFiles, ...folderFiles];
-            }
-          }
-        }
+    // Read metadata from the file contents for use in names
+    updateToast(toastId, "Reading file contents...");
+    let bytesRead = 0;
+    const countBytes = (bytes: number) => {
+      bytesRead += bytes;
+    };
+    for (let i = 0; i < newFiles.length; i++) {
+      throwIfCancelled(signal);
+      await loadFileMetadata(newFiles[i], countBytes);
+      updateActivity({
+        label: `Reading file contents (${formatFileSize(bytesRead)} read)`,
+        unit: "files",
+        processed: i + 1,
+        total: newFiles.length,
+      });
+    }
 
-        // Check total number of files
-        if (files.length + newFiles.length > MAX_FILES) {
-          removeToast(toastId);
-          setError(
-            `Cannot exceed ${MAX_FILES} files total. Please remove some files first.`
-          );
-          showToast(
-            `Maximum ${MAX_FILES} files allowed in total. You currently have ${files.length} files.`,
-            "error",
-            5000
-          );
-          return;
-        }
+    setFiles((prev) => [...prev, ...newFiles]);
+    removeToast(toastId);
 
-        // Validate file sizes
-        const oversizedFiles = newFiles.filter(
-          (file) => file.size > MAX_FILE_SIZE
-        );
-        if (oversizedFiles.length > 0) {
-          const fileNames = oversizedFiles.map((f) => f.name).join(", ");
-          setError(`Files exceeding 100MB limit: ${fileNames}`);
-          showToast(
-            `Files larger than 100MB are not allowed: ${fileNames}`,
-            "error",
-            5000
-          );
-          // Filter out oversized files
-          newFiles = newFiles.filter((file) => file.size <= MAX_FILE_SIZE);
-        }
+    if (newFiles.length > 0) {
+      showToast(`Successfully processed ${newFiles.length} files`, "success");
+    }
 
-        // Add progress simulation for large files
-        newFiles.forEach((file) => {
-          if (file.size > 1024 * 1024) {
-            simulateFileUploadProgress(file.name);
-          }
-        });
+    if (!oversizedFiles.length) {
+      setError(null);
+    }
+  };
 
-        setFiles((prev) => [...prev, ...newFiles]);
-        removeToast(toastId);
+  // Collect files and add them to the list as one batch, so cancelling part
+  // way leaves the list as it was
+  const importFiles = async (
+    message: string,
+    collect: (
+      newFiles: FileWithPreview[],
+      toastId: string,
+      signal: AbortSignal
+    ) => Promise<void>
+  ) => {
+    if (isActivityRunning()) return;
+    const toastId = showToast(message, "loading");
+    const signal = startActivity(message, "files");
+    const newFiles: FileWithPreview[] = [];
+    try {
+      await collect(newFiles, toastId, signal);
+      await addFiles(newFiles, toastId, signal);
+    } catch (err) {
+      removeToast(toastId);
+      // Previews of files that never made it into the list
+      newFiles.forEach((file) => {
+        if (file.preview) URL.revokeObjectURL(file.preview);
+      });
+      if (!signal.aborted) throw err;
+      showToast("Import cancelled, no files were added", "success");
+    } finally {
+      finishActivity();
+    }
+  };
 
-        if (newFiles.length > 0) {
-          showToast(
-            `Successfully processed ${newFiles.length} files`,
-            "success"
-          );
-        }
+  // A plain function rather than a memoized one, so drops always import with
+  // the current files and limits
+  const onDrop = async (acceptedFiles: File[]) => {
+    try {
+      await importFiles(
+        "Processing files...",
+        async (newFiles, toastId, signal) => {
+          // Process each dropped item
+          for (const file of acceptedFiles) {
+            // Unpack archives, including the ones inside them
+            if (
+              file.type === "application/zip" ||
+              isArchiveFileName(file.name)
+            ) {
+              newFiles.push(
+                ...(await extractArchiveContents(file, toastId, signal))
+              );
+              continue;
+            }
 
-        if (!oversizedFiles.length) {
-          setError(null);
-        }
-      } catch (err) {
-        setError("Failed to process dropped files. Please try again.");
-        console.error("Drop error:", err);
-      }
-    },
-    [files.length, showToast, removeToast]
-  );
+            // Handle regular files, keeping the path of files from folder
+            // drops
+            newFiles.push(toFileWithPreview(file, (file as FileWithPath).path));
+          }
 
-  const simulateFileUploadProgress = (fileName: string) => {
-    let progress = 0;
-    // Clear any existing interval for this file
-    if (progressIntervals.current[fileName]) {
-      clearInterval(progressIntervals.current[fileName]);
+          // Handle folders through DataTransfer items
+          const dataTransfer = (acceptedFiles[0] as any).dataTransfer;
+          if (dataTransfer?.items) {
+            for (const item of Array.from(
+              dataTransfer.items
+            ) as DataTransferItem[]) {
+              throwIfCancelled(signal);
+              const entry = item.webkitGetAsEntry();
+              if (entry?.isDirectory) {
+                newFiles.push(...(await processDirectoryEntry(entry)));
+              }
+            }
+          }
+        }
+      );
+    } catch (err) {
+      setError("Failed to process dropped files. Please try again.");
+      console.error("Drop error:", err);
     }
-
-    const interval = setInterval(() => {
-      progress += Math.random() * 30;
-      if (progress > 100) {
-        progress = 100;
-        clearInterval(interval);
-        delete progressIntervals.current[fileName];
-      }
-      setUploadProgress((prev) => ({
-        ...prev,
-        [fileName]: Math.min(progress, 100),
-      }));
-    }, 500);
-
-    progressIntervals.current[fileName] = interval;
   };
 
   const { getRootProps, getInputProps, isDragReject } = useDropzone({
@@ -557,145 +1079,600 @@ const FileRenamer: React.FC = () => {
     accept: {
       "image/*": [".png", ".jpg", ".jpeg", ".gif"],
       "video/*": [".mp4", ".webm", ".mov"],
-      "audio/*": [".mp3", ".wav"],
+      "audio/*": [".mp3", ".wav", ".flac"],
       "application/pdf": [".pdf"],
       "text/plain": [".txt"],
       "application/msword": [".doc", ".docx"],
       "application/vnd.ms-excel": [".xls", ".xlsx"],
       "application/zip": [".zip"],
+      "application/x-tar": [".tar"],
+      "application/gzip": [".gz", ".tgz"],
       "application/x-rar-compressed": [".rar"],
+      "application/x-7z-compressed": [".7z"],
       "application/json": [".json"],
       "text/html": [".html", ".htm"],
       "text/css": [".css"],
       "text/javascript": [".js"],
       "application/xml": [".xml"],
     },
-    maxSize: MAX_FILE_SIZE,
+    maxSize: fileLimits.maxFileSize,
     validator: (file) => {
-      if (file.size > MAX_FILE_SIZE) {
+      if (file.size > fileLimits.maxFileSize) {
         return {
           code: "file-too-large",
-          message: `File is larger than 100MB`,
+          message: `File is larger than ${formatFileSize(
+            fileLimits.maxFileSize
+          )}`,
         };
       }
-      if (files.length >= MAX_FILES) {
+      if (files.length >= fileLimits.maxFiles) {
         return {
           code: "too-many-files",
-          message: `Maximum ${MAX_FILES} files allowed`,
+          message: `Maximum ${fileLimits.maxFiles} files allowed`,
         };
       }
       return null;
     },
   });
 
+  // Perform an operation on the file list and make it undoable
+  const performOperation = (operation: FileOperation<FileWithPreview>) => {
+    setFiles((prev) => redoOperation(prev, operation));
+    setUndoStack((prev) => [...prev, operation].slice(-MAX_UNDO_STEPS));
+    setRedoStack([]);
+  };
+
+  const handleUndo = () => {
+    const operation = undoStack[undoStack.length - 1];
+    if (!operation) return;
+    setFiles((prev) => undoOperation(prev, operation));
+    setUndoStack((prev) => prev.slice(0, -1));
+    setRedoStack((prev) => [...prev, operation]);
+    showToast(`Undid ${operation.label}`, "success");
+  };
+
+  const handleRedo = () => {
+    const operation = redoStack[redoStack.length - 1];
+    if (!operation) return;
+    setFiles((prev) => redoOperation(prev, operation));
+    setRedoStack((prev) => prev.slice(0, -1));
+    setUndoStack((prev) => [...prev, operation]);
+    showToast(`Redid ${operation.label}`, "success");
+  };
+
+  // Undo with Ctrl+Z and redo with Ctrl+Shift+Z (or Ctrl+Y), leaving text
+  // fields to their own undo behaviour
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (
+        target?.tagName === "INPUT" ||
+        target?.tagName === "TEXTAREA" ||
+        target?.isContentEditable
+      ) {
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
+  // Revert every rename made in a batch from the history panel
+  const handleRevertBatch = (batchId: string) => {
+    const changes = history
+      .filter((entry) => entry.batchId === batchId)
+      .flatMap((entry) => {
+        const file = files.find((f) => f.id === entry.fileId);
+        // Only revert files that still carry the name from this batch
+        if (!file || file.newName !== entry.newName) return [];
+        return [
+          {
+            id: file.id,
+            before: { newName: file.newName },
+            after: { newName: entry.previousName },
+          },
+        ];
+      });
+
+    if (changes.length === 0) {
+      showToast("Nothing left to revert in this batch.", "error");
+      return;
+    }
+
+    performOperation({
+      kind: "update",
+      batchId: createUniqueId(),
+      label: `revert of ${changes.length} renames`,
+      changes,
+    });
+    showToast(`Reverted ${changes.length} renames`, "success");
+  };
+
   const handleClearAll = () => {
     if (files.length === 0) {
       showToast("No files to clear!", "error");
       return;
     }
 
-    // Clear all file previews
-    files.forEach((file) => {
-      if (file.preview) {
-        URL.revokeObjectURL(file.preview);
-      }
+    // Reset all state, keeping the files on the undo stack
+    performOperation({
+      kind: "remove",
+      batchId: createUniqueId(),
+      label: "clear all",
+      removed: files.map((item, index) => ({ item, index })),
     });
-
-    // Clear all intervals
-    Object.values(progressIntervals.current).forEach(clearInterval);
-    progressIntervals.current = {};
-
-    // Reset all state
-    setFiles([]);
     setBaseFileName("");
-    setUploadProgress({});
     setSelectedFileType("all");
     showToast("All files cleared successfully!", "success");
   };
 
-  const handleRemoveFile = (index: number) => {
+  const handleRemoveFile = (fileId: string) => {
+    const index = files.findIndex((file) => file.id === fileId);
+    if (index === -1) return;
     const removedFile = files[index];
-    if (removedFile.preview) {
-      URL.revokeObjectURL(removedFile.preview);
-    }
-    if (progressIntervals.current[removedFile.name]) {
-      clearInterval(progressIntervals.current[removedFile.name]);
-      delete progressIntervals.current[removedFile.name];
-    }
-    setFiles(files.filter((_, i) => i !== index));
-    setUploadProgress((prev) => {
-      const newProgress = { ...prev };
-      delete newProgress[removedFile.name];
-      return newProgress;
+    performOperation({
+      kind: "remove",
+      batchId: createUniqueId(),
+      label: `removal of ${removedFile.name}`,
+      removed: [{ item: removedFile, index }],
     });
     showToast(`Removed ${removedFile.name}`, "success");
   };
 
-  const handleBaseNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value;
-    // Remove any characters that could cause issues in filenames
-    const sanitizedValue = value.replace(/[<>:"/\\|?*]/g, "");
-    setBaseFileName(sanitizedValue.trim());
-    setError(null);
+  // Move a dragged card to the place of the card it was dropped on
+  const handleReorder = (draggedId: string, targetId: string) => {
+    if (draggedId === targetId) return;
+    // Dragging switches to manual order, starting from the order on screen
+    setFiles((prev) => {
+      const ordered = sortFiles(prev, sortMode, sortDirection);
+      return moveItem(
+        ordered,
+        ordered.findIndex((file) => file.id === draggedId),
+        ordered.findIndex((file) => file.id === targetId)
+      );
+    });
+    setSortMode("manual");
   };
 
-  const handleRename = () => {
-    if (!baseFileName) {
-      showToast("Please enter a base name for the files.", "error");
-      return;
-    }
+  const startEditingName = (file: FileWithPreview) => {
+    if (editingFileId === file.id) return;
+    setEditingFileId(file.id);
+    setEditingName(file.newName || previewNames.get(file.id) || file.name);
+  };
 
-    if (filteredFiles.length === 0) {
-      showToast("No files to rename.", "error");
+  // Give one file a hand-picked name, pinned so batch renames keep it
+  const handleNameOverride = (fileId: string) => {
+    setEditingFileId(null);
+    if (cancelNameEdit.current) {
+      cancelNameEdit.current = false;
       return;
     }
+    const file = files.find((f) => f.id === fileId);
+    // Same sanitising as the base name input
+    const newName = sanitizeFileName(editingName).trim();
+    if (!file || !newName) return;
+    if (file.pinned && newName === file.newName) return;
 
-    if (files.length > MAX_FILES) {
-      showToast(
-        `Cannot rename more than ${MAX_FILES} files. Please remove some files first.`,
-        "error"
-      );
-      return;
-    }
+    const batchId = createUniqueId();
+    setHistory((prev) => [
+      {
+        timestamp: Date.now(),
+        oldName: file.name,
+        newName,
+        fileType: file.type,
+        batchId,
+        fileId: file.id,
+        previousName: file.newName,
+      },
+      ...prev.slice(0, 49),
+    ]);
+    performOperation({
+      kind: "update",
+      batchId,
+      label: `rename of ${file.name}`,
+      changes: [
+        {
+          id: file.id,
+          before: { newName: file.newName, pinned: file.pinned },
+          after: { newName, pinned: true },
+        },
+      ],
+    });
+  };
 
+  // Let batch renames change a hand-picked name again
+  const handleUnpin = (file: FileWithPreview) => {
+    performOperation({
+      kind: "update",
+      batchId: createUniqueId(),
+      label: `unpin of ${file.newName || file.name}`,
+      changes: [
+        { id: file.id, before: { pinned: true }, after: { pinned: false } },
+      ],
+    });
+  };
+
+  const handleCardDragEnd = () => {
+    setDraggedFileId(null);
+    setDropTargetId(null);
+  };
+
+  const handleBaseNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    // Remove any characters that could cause issues in filenames
+    const sanitizedValue = sanitizeFileName(value);
+    setBaseFileName(sanitizedValue.trim());
+    setError(null);
+  };
+
+  const handleTemplateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setNameTemplate(e.target.value);
+    setError(null);
+  };
+
+  const handleAddRule = () => {
+    setRenameRules((prev) => [
+      ...prev,
+      createRenameRule(newRuleKind, createUniqueId()),
+    ]);
+  };
+
+  const updateRule = (id: string, changes: Partial<RenameRule>) => {
+    setRenameRules((prev) =>
+      prev.map((rule) =>
+        rule.id === id ? ({ ...rule, ...changes } as RenameRule) : rule
+      )
+    );
+  };
+
+  // Read a whole number from a field, or null while it's empty
+  const readWholeNumber = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.floor(Number(e.target.value));
+    return e.target.value.trim() && Number.isFinite(value) ? value : null;
+  };
+
+  // Update a number option of a rule
+  const handleRuleNumberChange =
+    (id: string, option: "count" | "offset" | "start" | "step" | "padding") =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = readWholeNumber(e);
+      if (value !== null) {
+        updateRule(id, { [option]: value } as Partial<RenameRule>);
+      }
+    };
+
+  const handleMoveRule = (id: string, offset: number) => {
+    setRenameRules((prev) => {
+      const index = prev.findIndex((rule) => rule.id === id);
+      const target = index + offset;
+      return target < prev.length ? moveItem(prev, index, target) : prev;
+    });
+  };
+
+  const handleRemoveRule = (id: string) => {
+    setRenameRules((prev) => prev.filter((rule) => rule.id !== id));
+  };
+
+  const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setSearchText(value);
     try {
-      // First, create the new history entries
-      const historyEntries: HistoryEntry[] = filteredFiles.map(
-        (file, index) => {
-          const extension = file.name.split(".").pop() || "";
-          const newName = `${baseFileName}_${index + 1}.${extension}`;
-          return {
-            timestamp: Date.now(),
-            oldName: file.name,
-            newName,
-            fileType: file.type,
-          };
-        }
+      if (value) buildSearchPattern({ search: value, matchMode });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleMatchModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const mode = e.target.value as MatchMode;
+    setMatchMode(mode);
+    try {
+      if (searchText)
+        buildSearchPattern({ search: searchText, matchMode: mode });
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleApplyPreset = (preset: RenamePreset) => {
+    const { settings } = preset;
+    setBaseFileName(settings.baseFileName);
+    setNameTemplate(settings.nameTemplate);
+    setRenameMode(settings.renameMode);
+    setRenameRules(settings.renameRules);
+    setSearchText(settings.searchText);
+    setReplaceText(settings.replaceText);
+    setMatchMode(settings.matchMode);
+    setSelectedFileType(settings.selectedFileType);
+    setSortMode(settings.sortMode);
+    setSortDirection(settings.sortDirection);
+    setGroupByFolder(settings.groupByFolder);
+    setNumberStart(settings.numberStart);
+    setNumberStep(settings.numberStep);
+    setNumberPadding(settings.numberPadding);
+    setAutoNumberPadding(settings.autoNumberPadding);
+    setNumberStyle(settings.numberStyle);
+    setNumberPosition(settings.numberPosition);
+    setNumberSeparator(settings.numberSeparator);
+    setRestartNumbering(settings.restartNumbering);
+    setPreserveFolders(settings.preserveFolders);
+    setCollisionPolicy(settings.collisionPolicy);
+    setOverwritePinned(settings.overwritePinned);
+    setFixExtensions(settings.fixExtensions);
+    setLowercaseExtensions(settings.lowercaseExtensions);
+    setNormalizeExtensionAliases(settings.normalizeExtensionAliases);
+    setReplacementExtension(settings.replacementExtension);
+    setNameCase(settings.nameCase);
+    setNameCaseTarget(settings.nameCaseTarget);
+    setTargetPlatform(settings.targetPlatform);
+    setAutoFixNames(settings.autoFixNames);
+    setError(null);
+    showToast(`Applied preset ${preset.name}`, "success");
+  };
+
+  // Save the current settings, replacing a preset with the same name
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) {
+      showToast("Enter a name for the preset first.", "error");
+      return;
+    }
+    setPresets((prev) =>
+      mergePresets(prev, [
+        { id: createUniqueId(), name, settings: currentSettings },
+      ])
+    );
+    setPresetName("");
+    showToast(`Saved preset ${name}`, "success");
+  };
+
+  const handleDeletePreset = (preset: RenamePreset) => {
+    setPresets((prev) => prev.filter((p) => p.id !== preset.id));
+    showToast(`Deleted preset ${preset.name}`, "success");
+  };
+
+  const handleExportPresets = () => {
+    downloadBlob(
+      new Blob([serializePresets(presets)], { type: "application/json" }),
+      "rename-presets.json"
+    );
+  };
+
+  const handleImportPresets = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again later
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = parsePresets(await file.text(), createUniqueId);
+      if (imported.length === 0) {
+        showToast("No presets found in the file.", "error");
+        return;
+      }
+      setPresets((prev) => mergePresets(prev, imported));
+      showToast(`Imported ${imported.length} presets`, "success");
+    } catch (err) {
+      console.error("Preset import error:", err);
+      showToast(
+        err instanceof Error ? err.message : "Failed to import presets.",
+        "error"
+      );
+    }
+  };
+
+  // Load a list of old and new names and switch to mapping mode
+  const handleImportMapping = async (
+    e: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = e.target.files?.[0];
+    // Allow importing the same file again later
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const mapping = parseNameMapping(await file.text(), file.name);
+      setNameMapping(mapping);
+      setRenameMode("mapping");
+      showToast(
+        mapping.errors.length > 0
+          ? `Imported ${mapping.rows.length} names, skipped ${mapping.errors.length} rows`
+          : `Imported ${mapping.rows.length} names from ${file.name}`,
+        "success"
+      );
+    } catch (err) {
+      console.error("Mapping import error:", err);
+      showToast(
+        err instanceof Error ? err.message : "Failed to import the mapping.",
+        "error"
+      );
+    }
+  };
+
+  const handleClearMapping = () => {
+    setNameMapping(null);
+    setRenameMode("sequential");
+  };
+
+  // Check that names can be generated before renaming or downloading
+  const validateNaming = () => {
+    if (renameMode === "rules") {
+      if (pipeline.errors.length > 0) {
+        showToast(pipeline.errors[0], "error");
+        return false;
+      }
+      if (!canGenerateNames) {
+        showToast("Please add a rename rule first.", "error");
+        return false;
+      }
+      return true;
+    }
+    if (renameMode === "mapping") {
+      if (!nameMapping) {
+        showToast("Please import a CSV or JSON mapping first.", "error");
+        return false;
+      }
+      if (!canGenerateNames) {
+        showToast("None of the new names in the mapping can be used.", "error");
+        return false;
+      }
+      return true;
+    }
+    if (renameMode === "replace") {
+      if (searchError) {
+        setError(searchError);
+        showToast(searchError, "error");
+        return false;
+      }
+      if (!searchText) {
+        showToast("Please enter the text to search for.", "error");
+        return false;
+      }
+      return true;
+    }
+    if (templateError) {
+      showToast(`Invalid naming template: ${templateError}`, "error");
+      return false;
+    }
+    if (requiresBaseName && !baseFileName) {
+      showToast("Please enter a base name for the files.", "error");
+      return false;
+    }
+    return true;
+  };
+
+  // Show which names would overwrite each other
+  const reportNameConflicts = (conflicts: Map<string, string>) => {
+    const paths = Array.from(new Set(conflicts.values()));
+    setError(`Name conflicts: ${paths.join(", ")}`);
+    showToast(
+      `${paths.length} ${
+        paths.length === 1 ? "name is" : "names are"
+      } used by more than one file. Change the naming options or the conflict policy.`,
+      "error",
+      5000
+    );
+  };
+
+  // Show which names won't work on the target system
+  const reportNameIssues = (issues: Map<string, NameIssue[]>) => {
+    setError(
+      `${issues.size} ${
+        issues.size === 1 ? "name breaks" : "names break"
+      } the ${TARGET_PLATFORM_LABELS[targetPlatform]} naming rules`
+    );
+    showToast(
+      "Some names break the rules of the target system. Fix them or turn on Auto-fix names.",
+      "error",
+      5000
+    );
+  };
+
+  // Final names for writing files out, using names from the rename step
+  // where there are any. Returns null when name conflicts or names that
+  // don't work on the target system block the output.
+  const resolveOutputNames = (
+    targetFiles: FileWithPreview[],
+    getFolder: (file: FileWithPreview) => string
+  ) => {
+    const resolution = resolveNames(
+      targetFiles.map((file) => ({
+        id: file.id,
+        folder: getFolder(file),
+        name: file.newName || previewNames.get(file.id) || file.name,
+      })),
+      currentSettings
+    );
+    if (collisionPolicy === "error" && resolution.conflicts.size > 0) {
+      reportNameConflicts(resolution.conflicts);
+      return null;
+    }
+    if (resolution.issues.size > 0) {
+      reportNameIssues(resolution.issues);
+      return null;
+    }
+    return resolution;
+  };
+
+  const handleRename = () => {
+    if (!validateNaming()) {
+      return;
+    }
+
+    if (filteredFiles.length === 0) {
+      showToast("No files to rename.", "error");
+      return;
+    }
+
+    if (files.length > fileLimits.maxFiles) {
+      showToast(
+        `Cannot rename more than ${fileLimits.maxFiles} files. Please remove some files first.`,
+        "error"
+      );
+      return;
+    }
+
+    if (collisionPolicy === "error" && nameResolution.conflicts.size > 0) {
+      reportNameConflicts(nameResolution.conflicts);
+      return;
+    }
+
+    try {
+      const { names, skipped } = nameResolution;
+      const batchId = createUniqueId();
+      // Pinned names are already in place unless they are being overwritten
+      const renamedFiles = filteredFiles.filter(
+        (file) => names.has(file.id) && (!file.pinned || overwritePinned)
       );
 
+      // First, create the new history entries
+      const historyEntries: HistoryEntry[] = renamedFiles.map((file) => ({
+        timestamp: Date.now(),
+        oldName: file.name,
+        newName: names.get(file.id) as string,
+        fileType: file.type,
+        batchId,
+        fileId: file.id,
+        previousName: file.newName,
+      }));
+
       // Update history once
       setHistory((prev) => [...historyEntries, ...prev.slice(0, 49)]);
 
       // Then update files with new names
-      const newFiles = files.map((file) => {
-        if (!filteredFiles.includes(file)) return file;
-
-        const index = filteredFiles.indexOf(file);
-        const extension = file.name.split(".").pop() || "";
-        const newName = `${baseFileName}_${index + 1}.${extension}`;
-        return {
-          ...file,
-          newName,
-        };
+      performOperation({
+        kind: "update",
+        batchId,
+        label: `rename of ${renamedFiles.length} files`,
+        changes: renamedFiles.map((file) => ({
+          id: file.id,
+          before: { newName: file.newName, pinned: file.pinned },
+          after: { newName: names.get(file.id), pinned: false },
+        })),
       });
-
-      setFiles(newFiles);
       setIsRenaming(true);
       setError(null);
       setTimeout(() => setIsRenaming(false), 1500);
 
       showToast(
-        `Renamed ${filteredFiles.length} files successfully!`,
+        skipped.size > 0
+          ? `Renamed ${historyEntries.length} files, skipped ${skipped.size} duplicates`
+          : `Renamed ${historyEntries.length} files successfully!`,
         "success"
       );
     } catch (err) {
@@ -710,8 +1687,7 @@ const FileRenamer: React.FC = () => {
   };
 
   const handleDownload = async () => {
-    if (!baseFileName) {
-      showToast("Please enter a base name for the files.", "error");
+    if (!validateNaming()) {
       return;
     }
     if (filteredFiles.length === 0) {
@@ -719,99 +1695,280 @@ const FileRenamer: React.FC = () => {
       return;
     }
 
-    if (files.length > MAX_FILES) {
+    if (files.length > fileLimits.maxFiles) {
       showToast(
-        `Cannot download more than ${MAX_FILES} files. Please remove some files first.`,
+        `Cannot download more than ${fileLimits.maxFiles} files. Please remove some files first.`,
         "error"
       );
       return;
     }
 
-    const toastId = showToast("Preparing files for download...", "loading");
+    // Make sure no two entries end up at the same path in the archive
+    const entryNames = resolveOutputNames(filteredFiles, (file) =>
+      getOutputFolder(file, preserveFolders)
+    );
+    if (!entryNames) return;
+    const downloadFiles = filteredFiles.filter((file) =>
+      entryNames.names.has(file.id)
+    );
+    if (isActivityRunning()) return;
 
+    // The archive is written out as it's built, so it never has to fit in
+    // memory
+    let output: WritableFileStream;
     try {
-      const zip = new JSZip();
-      let totalSize = 0;
-      filteredFiles.forEach((file) => (totalSize += file.size));
-      let processedSize = 0;
-
-      setUploadProgress((prev) => ({ ...prev, download: 0 }));
-
-      // Process files in chunks to prevent memory issues
-      const chunkSize = 5; // Process 5 files at a time
-      for (let i = 0; i < filteredFiles.length; i += chunkSize) {
-        const chunk = filteredFiles.slice(i, i + chunkSize);
-        await Promise.all(
-          chunk.map(async (file) => {
-            try {
-              const extension = file.name.split(".").pop() || "";
-              const newName =
-                file.newName ||
-                `${baseFileName}_${
-                  filteredFiles.indexOf(file) + 1
-                }.${extension}`;
-
-              const arrayBuffer = await file.arrayBuffer();
-              zip.file(newName, arrayBuffer);
-
-              processedSize += file.size;
-              setUploadProgress((prev) => ({
-                ...prev,
-                download: Math.min((processedSize / totalSize) * 100, 99),
-              }));
-            } catch (err) {
-              console.error(`Error processing file ${file.name}:`, err);
-              throw new Error(`Failed to process file ${file.name}`);
-            }
-          })
-        );
-      }
+      output = await openDownloadStream(
+        formatArchiveName(archiveName, archiveFormat, {
+          base: baseFileName,
+          count: downloadFiles.length,
+        })
+      );
+    } catch (err) {
+      // The user closed the save dialog
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError("Failed to create the download file. Please try again.");
+      console.error("Save file error:", err);
+      return;
+    }
 
-      const content = await zip.generateAsync(
-        {
-          type: "blob",
-          compression: "DEFLATE",
-          compressionOptions: {
-            level: 6,
-          },
-        },
-        (metadata) => {
-          if (metadata.percent) {
-            setUploadProgress((prev) => ({
-              ...prev,
-              download: 99 + metadata.percent / 100, // Final 1% for zip generation
-            }));
+    const toastId = showToast("Preparing files for download...", "loading");
+    const signal = startActivity("Creating download", "bytes");
+
+    // Recreate the original folder tree around the new names. The archive
+    // is built in the worker and handed back a chunk at a time.
+    const entries = downloadFiles.map((file) => ({
+      path: joinPath(
+        getOutputFolder(file, preserveFolders),
+        entryNames.names.get(file.id) as string
+      ),
+      file: file.slice(0, file.size, file.type),
+      lastModified: file.lastModified,
+    }));
+    // Record the old and new name of every file, for the manifest and the
+    // scripts that repeat the rename on the originals
+    const manifest =
+      manifestFormat !== "none" || includeRenameScripts
+        ? {
+            records: downloadFiles.map((file, index) => ({
+              originalName: file.name,
+              originalPath: file.relativePath || file.name,
+              newName: entryNames.names.get(file.id) as string,
+              newPath: entries[index].path,
+              size: file.size,
+              type: file.type,
+            })),
+            options: { format: manifestFormat, scripts: includeRenameScripts },
           }
-        }
-      );
+        : undefined;
+    const task = buildArchiveInWorker(
+      entries,
+      { write: (chunk) => output.write(chunk) },
+      {
+        format: archiveFormat,
+        level: compressionLevel,
+        manifest,
+        onProgress: (processedSize, totalSize, entriesWritten) =>
+          updateActivity({
+            label: `Writing file ${Math.min(
+              entriesWritten + 1,
+              downloadFiles.length
+            )} of ${downloadFiles.length}`,
+            processed: processedSize,
+            total: totalSize,
+          }),
+      }
+    );
+    signal.addEventListener("abort", task.cancel);
 
-      // Create and trigger download
-      const url = URL.createObjectURL(content);
-      const link = document.createElement("a");
-      link.href = url;
-      link.download = `${baseFileName}_files.zip`;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(url);
+    try {
+      await task.result;
+      await output.close();
 
       setError(null);
-      // Reset download progress after a short delay
-      setTimeout(() => {
-        setUploadProgress((prev) => ({ ...prev, download: 0 }));
-      }, 1000);
-
       showToast("Files downloaded successfully!", "success");
       removeToast(toastId);
     } catch (err) {
-      const errorMessage =
-        err instanceof Error
-          ? err.message
-          : "Failed to create download. Please try again.";
-      showToast(errorMessage, "error");
       removeToast(toastId);
-      console.error("Download error:", err);
-      setUploadProgress((prev) => ({ ...prev, download: 0 }));
+      await output.abort().catch(() => undefined);
+      if (signal.aborted) {
+        showToast("Download cancelled", "success");
+      } else {
+        const errorMessage =
+          err instanceof Error
+            ? err.message
+            : "Failed to create download. Please try again.";
+        showToast(errorMessage, "error");
+        console.error("Download error:", err);
+      }
+    } finally {
+      finishActivity();
+    }
+  };
+
+  const handleOpenFolder = async () => {
+    if (isActivityRunning()) return;
+    let directory: FileSystemDirectoryHandle;
+    try {
+      directory = await pickDirectory();
+    } catch (err) {
+      // The user closed the picker
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      setError("Failed to open the folder. Please try again.");
+      console.error("Open folder error:", err);
+      return;
+    }
+
+    try {
+      await importFiles(`Reading ${directory.name}...`, async (newFiles) => {
+        const diskFiles = await listDirectoryFiles(directory);
+        newFiles.push(
+          ...diskFiles.map(({ file, handle, directory, relativePath }) => ({
+            ...toFileWithPreview(file, relativePath),
+            handle,
+            directoryHandle: directory,
+          }))
+        );
+      });
+    } catch (err) {
+      setError("Failed to read the folder. Please try again.");
+      console.error("Open folder error:", err);
+    }
+  };
+
+  // Rename files opened from disk in place, logging each result to history
+  const handleApplyToDisk = async () => {
+    if (!validateNaming()) {
+      return;
+    }
+
+    const diskFiles = filteredFiles.filter(
+      (file) => file.handle && file.directoryHandle
+    );
+    if (diskFiles.length === 0) {
+      showToast("No files opened from disk to rename.", "error");
+      return;
+    }
+
+    // Files always stay in their own folder on disk
+    const outputNames = resolveOutputNames(diskFiles, (file) =>
+      getFolderPath(file.relativePath)
+    );
+    if (!outputNames) return;
+
+    if (isActivityRunning()) return;
+    setIsApplyingToDisk(true);
+    const toastId = showToast("Renaming files on disk...", "loading");
+    // Cancelling stops before the next file is moved out of the way, and the
+    // list keeps every rename done so far
+    const signal = startActivity("Renaming files on disk", "files");
+    const batchId = createUniqueId();
+    const historyEntries: HistoryEntry[] = [];
+    const updates = new Map<string, Partial<FileWithPreview>>();
+
+    const renames = diskFiles
+      .map((file) => ({ file, newName: outputNames.names.get(file.id) }))
+      .filter(
+        (rename): rename is { file: FileWithPreview; newName: string } =>
+          !!rename.newName && rename.newName !== rename.file.name
+      );
+    const results = await renameBatchOnDisk(
+      renames.map(({ file, newName }) => ({
+        handle: file.handle as FileSystemFileHandle,
+        directory: file.directoryHandle as FileSystemDirectoryHandle,
+        newName,
+      })),
+      {
+        signal,
+        onProgress: (processed) =>
+          updateActivity({ processed, total: renames.length }),
+      }
+    );
+
+    for (let i = 0; i < renames.length; i++) {
+      const { file, newName } = renames[i];
+      const result = results[i];
+      if (!result) continue;
+
+      const entry: HistoryEntry = {
+        timestamp: Date.now(),
+        oldName: file.name,
+        newName,
+        fileType: file.type,
+        batchId,
+        fileId: file.id,
+      };
+
+      if (result.status === "error") {
+        console.error(`Error renaming ${file.name} on disk:`, result.message);
+        historyEntries.push({
+          ...entry,
+          status: "error",
+          message: result.message,
+        });
+        continue;
+      }
+
+      try {
+        // Read the renamed file again, the old File no longer points to it
+        const renamedFile = await result.handle.getFile();
+        updates.set(file.id, {
+          name: newName,
+          newName: undefined,
+          size: renamedFile.size,
+          lastModified: renamedFile.lastModified,
+          relativePath: joinPath(getFolderPath(file.relativePath), newName),
+          handle: result.handle,
+          slice: renamedFile.slice.bind(renamedFile),
+          arrayBuffer: renamedFile.arrayBuffer.bind(renamedFile),
+          stream: renamedFile.stream.bind(renamedFile),
+          text: renamedFile.text.bind(renamedFile),
+        });
+        historyEntries.push({
+          ...entry,
+          status: "success",
+          message:
+            result.method === "moved"
+              ? "Renamed on disk"
+              : "Copied to the new name and deleted the original",
+        });
+      } catch (err) {
+        console.error(`Error reading ${newName} after renaming it:`, err);
+        historyEntries.push({
+          ...entry,
+          status: "error",
+          message: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    setFiles((prev) =>
+      prev.map((file) =>
+        updates.has(file.id) ? { ...file, ...updates.get(file.id) } : file
+      )
+    );
+    setHistory((prev) => [...historyEntries, ...prev.slice(0, 49)]);
+    // Changes on disk cannot be undone from the in-memory operation stack
+    setUndoStack([]);
+    setRedoStack([]);
+    setIsApplyingToDisk(false);
+    finishActivity();
+    removeToast(toastId);
+
+    const failed = historyEntries.filter((e) => e.status === "error").length;
+    if (signal.aborted) {
+      showToast(
+        `Cancelled after renaming ${updates.size} files on disk`,
+        "success"
+      );
+    } else if (failed > 0) {
+      setShowHistory(true);
+      showToast(
+        `Renamed ${updates.size} files on disk, ${failed} failed. See the history for details.`,
+        "error",
+        5000
+      );
+    } else {
+      showToast(`Renamed ${updates.size} files on disk`, "success");
     }
   };
 
@@ -1128,54 +2285,506 @@ const FileRenamer: React.FC = () => {
 
   // Add a useEffect to monitor total file count
   useEffect(() => {
-    if (files.length > MAX_FILES) {
+    if (files.length > fileLimits.maxFiles) {
       setError(
-        `You have exceeded the ${MAX_FILES} file limit. Please remove some files.`
+        `You have exceeded the ${fileLimits.maxFiles} file limit. Please remove some files.`
       );
       showToast(
-        `Maximum ${MAX_FILES} files allowed. Please remove excess files.`,
+        `Maximum ${fileLimits.maxFiles} files allowed. Please remove excess files.`,
         "error",
         5000
       );
     }
-  }, [files.length]);
+  }, [files.length, fileLimits.maxFiles]);
 
   // Add file count indicator color
   const getFileCountColor = (count: number) => {
-    if (count >= MAX_FILES) return "text-red-400 bg-red-400/20";
-    if (count >= MAX_FILES * 0.8) return "text-yellow-400 bg-yellow-400/20";
+    if (count >= fileLimits.maxFiles) return "text-red-400 bg-red-400/20";
+    if (count >= fileLimits.maxFiles * 0.8)
+      return "text-yellow-400 bg-yellow-400/20";
     return "text-gray-400 bg-gray-700";
   };
 
-  return (
-    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
-      {/* Toast Container */}
-      <div className="fixed top-4 right-4 z-50 space-y-2">
-        <AnimatePresence>
-          {toasts.map((toast) => (
-            <motion.div
-              key={toast.id}
-              initial={{ opacity: 0, y: -20, scale: 0.8 }}
-              animate={{ opacity: 1, y: 0, scale: 1 }}
-              exit={{ opacity: 0, y: -20, scale: 0.8 }}
-              className={`p-4 rounded-lg shadow-lg flex items-center gap-2 min-w-[300px] ${
-                toast.type === "success"
-                  ? "bg-green-500 text-white"
-                  : toast.type === "error"
-                  ? "bg-red-500 text-white"
-                  : "bg-blue-500 text-white"
-              }`}
+  const renderRulePosition = (
+    rule: RenameRule & { position: RulePosition }
+  ) => (
+    <select
+      value={rule.position}
+      onChange={(e) =>
+        updateRule(rule.id, { position: e.target.value as RulePosition })
+      }
+      className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+    >
+      {(Object.keys(RULE_POSITION_LABELS) as RulePosition[]).map((position) => (
+        <option key={position} value={position}>
+          {RULE_POSITION_LABELS[position]}
+        </option>
+      ))}
+    </select>
+  );
+
+  // The options of a rename rule, laid out to read as a sentence
+  const renderRuleOptions = (rule: RenameRule) => {
+    switch (rule.kind) {
+      case "insert":
+        return (
+          <>
+            <input
+              type="text"
+              placeholder="Text, e.g. {modified:YYYY-MM-DD}_"
+              value={rule.text}
+              onChange={(e) => updateRule(rule.id, { text: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none font-mono"
+            />
+            {renderRulePosition(rule)}
+          </>
+        );
+      case "remove":
+        return (
+          <>
+            <input
+              type="number"
+              min={0}
+              value={rule.count}
+              onChange={handleRuleNumberChange(rule.id, "count")}
+              className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            {renderRulePosition(rule)} skipping
+            <input
+              type="number"
+              min={0}
+              value={rule.offset}
+              onChange={handleRuleNumberChange(rule.id, "offset")}
+              className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+          </>
+        );
+      case "replace":
+        return (
+          <>
+            <input
+              type="text"
+              placeholder="Find..."
+              value={rule.search}
+              onChange={(e) => updateRule(rule.id, { search: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            <input
+              type="text"
+              placeholder="Replace with..."
+              value={rule.replace}
+              onChange={(e) => updateRule(rule.id, { replace: e.target.value })}
+              className="flex-1 min-w-0 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            <select
+              value={rule.matchMode}
+              onChange={(e) =>
+                updateRule(rule.id, { matchMode: e.target.value as MatchMode })
+              }
+              className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
             >
-              {toast.type === "success" && (
-                <FiCheck className="flex-shrink-0" />
-              )}
-              {toast.type === "error" && (
-                <FiAlertCircle className="flex-shrink-0" />
+              {(Object.keys(MATCH_MODE_LABELS) as MatchMode[]).map((mode) => (
+                <option key={mode} value={mode}>
+                  {MATCH_MODE_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </>
+        );
+      case "trim":
+        return (
+          <>
+            spaces and
+            <input
+              type="text"
+              placeholder="e.g. _-"
+              value={rule.characters}
+              onChange={(e) =>
+                updateRule(rule.id, { characters: e.target.value })
+              }
+              className="w-20 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={rule.collapseSpaces}
+                onChange={(e) =>
+                  updateRule(rule.id, { collapseSpaces: e.target.checked })
+                }
+                className="accent-primary"
+              />
+              Collapse repeated spaces
+            </label>
+          </>
+        );
+      case "case":
+        return (
+          <select
+            value={rule.nameCase}
+            onChange={(e) =>
+              updateRule(rule.id, { nameCase: e.target.value as NameCase })
+            }
+            className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+          >
+            {(Object.keys(NAME_CASE_LABELS) as NameCase[])
+              .filter((mode) => mode !== "none")
+              .map((mode) => (
+                <option key={mode} value={mode}>
+                  {NAME_CASE_LABELS[mode]}
+                </option>
+              ))}
+          </select>
+        );
+      case "number":
+        return (
+          <>
+            {renderRulePosition(rule)} from
+            <input
+              type="number"
+              value={rule.start}
+              onChange={handleRuleNumberChange(rule.id, "start")}
+              className="w-20 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            step
+            <input
+              type="number"
+              value={rule.step}
+              onChange={handleRuleNumberChange(rule.id, "step")}
+              className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            digits
+            <input
+              type="number"
+              min={0}
+              value={rule.padding}
+              onChange={handleRuleNumberChange(rule.id, "padding")}
+              className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            />
+            <select
+              value={rule.style}
+              onChange={(e) =>
+                updateRule(rule.id, { style: e.target.value as NumberStyle })
+              }
+              className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+            >
+              {(Object.keys(NUMBER_STYLE_LABELS) as NumberStyle[]).map(
+                (style) => (
+                  <option key={style} value={style}>
+                    {NUMBER_STYLE_LABELS[style]}
+                  </option>
+                )
               )}
-              {toast.type === "loading" && (
-                <svg
-                  className="animate-spin h-5 w-5 flex-shrink-0"
-                  viewBox="0 0 24 24"
+            </select>
+            separator
+            <input
+              type="text"
+              value={rule.separator}
+              onChange={(e) =>
+                updateRule(rule.id, { separator: e.target.value })
+              }
+              className="w-12 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none font-mono"
+            />
+          </>
+        );
+    }
+  };
+
+  const renderFileCard = (file: FileWithPreview) => (
+    <motion.div
+      key={file.id}
+      initial={{ opacity: 0, scale: 0.8 }}
+      animate={{ opacity: 1, scale: 1 }}
+      exit={{ opacity: 0, scale: 0.8 }}
+      whileHover={{ scale: 1.02 }}
+      transition={{ type: "spring", stiffness: 300, damping: 20 }}
+      onDragOver={(e) => {
+        if (!draggedFileId) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setDropTargetId(file.id);
+      }}
+      onDrop={(e) => {
+        if (!draggedFileId) return;
+        e.preventDefault();
+        handleReorder(draggedFileId, file.id);
+        handleCardDragEnd();
+      }}
+      className={`relative p-5 rounded-xl bg-gradient-to-br from-gray-700/50 to-gray-800/50 backdrop-blur-sm border shadow-lg group ${
+        dropTargetId === file.id && draggedFileId !== file.id
+          ? "border-primary"
+          : "border-gray-700/50"
+      } ${draggedFileId === file.id ? "opacity-50" : ""}`}
+    >
+      <button
+        onClick={() => handleRemoveFile(file.id)}
+        className="absolute -top-2 -right-2 p-2 rounded-full bg-red-500 text-white opacity-0 group-hover:opacity-100 transition-all duration-200 transform group-hover:scale-110 shadow-lg hover:bg-red-600"
+      >
+        <FiX className="w-4 h-4" />
+      </button>
+
+      {/* Drag handle for reordering by hand */}
+      <div
+        draggable
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = "move";
+          e.dataTransfer.setData("text/plain", file.id);
+          setDraggedFileId(file.id);
+        }}
+        onDragEnd={handleCardDragEnd}
+        title="Drag to reorder"
+        className="absolute bottom-2 right-2 p-1 rounded text-gray-500 opacity-0 group-hover:opacity-100 hover:text-gray-300 cursor-grab active:cursor-grabbing"
+      >
+        <FiMove className="w-4 h-4" />
+      </div>
+      <button
+        onClick={() => startEditingName(file)}
+        title="Edit name"
+        className="absolute bottom-2 right-8 p-1 rounded text-gray-500 opacity-0 group-hover:opacity-100 hover:text-gray-300"
+      >
+        <FiEdit2 className="w-4 h-4" />
+      </button>
+
+      <div className="flex items-start gap-4">
+        <motion.div
+          className="flex-shrink-0 p-3 rounded-lg bg-gray-800/50 border border-gray-700/50"
+          whileHover={{ rotate: [0, -10, 10, -10, 0] }}
+          transition={{ duration: 0.5 }}
+        >
+          {getFileIcon(file.type)}
+        </motion.div>
+        <div
+          className="flex-1 min-w-0"
+          onDoubleClick={() => startEditingName(file)}
+        >
+          {editingFileId === file.id ? (
+            <input
+              type="text"
+              autoFocus
+              value={editingName}
+              onChange={(e) => setEditingName(e.target.value)}
+              onFocus={(e) => e.target.select()}
+              onBlur={() => handleNameOverride(file.id)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.currentTarget.blur();
+                } else if (e.key === "Escape") {
+                  cancelNameEdit.current = true;
+                  e.currentTarget.blur();
+                }
+              }}
+              className="w-full px-2 py-1 rounded-lg bg-gray-700 border border-primary text-sm focus:outline-none"
+            />
+          ) : file.newName ? (
+            <div className="space-y-3">
+              <div className="relative">
+                <motion.div
+                  initial={{ opacity: 1 }}
+                  animate={{ opacity: 0.5 }}
+                  className="text-sm text-gray-400 line-through truncate transition-all duration-300"
+                >
+                  {file.name}
+                </motion.div>
+                <motion.div
+                  initial={{ opacity: 0, y: -10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  className="mt-2"
+                >
+                  <div className="flex items-center gap-3">
+                    <motion.div
+                      initial={{ height: 0 }}
+                      animate={{ height: "100%" }}
+                      className="w-0.5 bg-gradient-to-b from-primary via-primary/50 to-transparent"
+                      style={{ height: "24px" }}
+                    />
+                    <div className="flex-1">
+                      <motion.div
+                        initial={{ opacity: 0, x: -10 }}
+                        animate={{ opacity: 1, x: 0 }}
+                        transition={{ delay: 0.2 }}
+                        className="text-sm font-medium text-primary truncate bg-primary/5 px-3 py-1.5 rounded-lg border border-primary/10"
+                      >
+                        {file.newName}
+                      </motion.div>
+                    </div>
+                  </div>
+                </motion.div>
+              </div>
+            </div>
+          ) : (
+            <>
+              <div className="text-sm truncate mb-1 text-gray-200">
+                {file.name}
+              </div>
+              {nameResolution.names.has(file.id) && (
+                <div className="text-xs truncate text-gray-400">
+                  → {nameResolution.names.get(file.id)}
+                </div>
+              )}
+              {(ruleSteps?.get(file.id)?.length ?? 0) > 1 && (
+                <ol className="text-xs text-gray-500 mt-1 space-y-0.5">
+                  {ruleSteps?.get(file.id)?.map((name, index) => (
+                    <li key={index} className="truncate">
+                      {index + 1}.{" "}
+                      {RENAME_RULE_LABELS[pipeline.rules[index].rule.kind]}:{" "}
+                      <span className="text-gray-400">{name}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+              {nameResolution.skipped.has(file.id) ? (
+                <div className="flex items-center gap-1 text-xs text-yellow-400 mt-1">
+                  <FiAlertCircle className="flex-shrink-0" />
+                  <span className="truncate">
+                    Skipped, {previewNames.get(file.id)} is already used
+                  </span>
+                </div>
+              ) : (
+                nameResolution.conflicts.has(file.id) &&
+                (collisionPolicy === "error" ||
+                  nameResolution.names.get(file.id) !==
+                    previewNames.get(file.id)) && (
+                  <div
+                    className={`flex items-center gap-1 text-xs mt-1 ${
+                      collisionPolicy === "error"
+                        ? "text-red-400"
+                        : "text-yellow-400"
+                    }`}
+                  >
+                    <FiAlertCircle className="flex-shrink-0" />
+                    <span className="truncate">
+                      {collisionPolicy === "error"
+                        ? "Name conflict"
+                        : "Suffix added to avoid a name conflict"}
+                    </span>
+                  </div>
+                )
+              )}
+              {nameResolution.issues.get(file.id)?.map((issue) => (
+                <div
+                  key={issue.kind}
+                  title={issue.message}
+                  className="flex items-center gap-1 text-xs text-red-400 mt-1"
+                >
+                  <FiAlertCircle className="flex-shrink-0" />
+                  <span className="truncate">{issue.message}</span>
+                </div>
+              ))}
+            </>
+          )}
+          <div className="flex items-center gap-2 mt-3">
+            <div className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md">
+              {formatFileSize(file.size)}
+            </div>
+            <div className="text-xs text-gray-500">•</div>
+            <div className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md">
+              {file.type.split("/")[1]?.toUpperCase() || "FILE"}
+            </div>
+            {file.pinned && (
+              <>
+                <div className="text-xs text-gray-500">•</div>
+                <button
+                  onClick={() => handleUnpin(file)}
+                  title="Unpin so batch renames can change this name"
+                  className="text-xs text-primary bg-primary/10 px-2 py-1 rounded-md flex items-center gap-1 hover:bg-primary/20"
+                >
+                  <FiLock className="flex-shrink-0" />
+                  Pinned
+                </button>
+              </>
+            )}
+            {file.audioTags?.artist && (
+              <>
+                <div className="text-xs text-gray-500">•</div>
+                <div className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md truncate">
+                  {file.audioTags.artist}
+                </div>
+              </>
+            )}
+            {file.exif?.model && (
+              <>
+                <div className="text-xs text-gray-500">•</div>
+                <div
+                  className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md truncate"
+                  title={[file.exif.make, file.exif.model, file.exif.lens]
+                    .filter(Boolean)
+                    .join(" · ")}
+                >
+                  {file.exif.model}
+                </div>
+              </>
+            )}
+          </div>
+          {!groupByFolder && getFolderPath(file.relativePath) && (
+            <div className="flex items-center gap-1 mt-2 text-xs text-gray-500">
+              <FiFolder className="flex-shrink-0" />
+              <span className="truncate">
+                {getFolderPath(file.relativePath)}
+              </span>
+            </div>
+          )}
+          {file.signature && hasExtensionMismatch(file) && (
+            <div className="flex items-center gap-1 mt-2 text-xs text-yellow-400">
+              <FiAlertCircle className="flex-shrink-0" />
+              <span className="truncate">
+                Content looks like {file.signature.extensions[0].toUpperCase()},
+                not the extension in the name
+              </span>
+            </div>
+          )}
+          {getAudioTagReport(file).length > 0 && (
+            <div className="flex items-center gap-1 mt-2 text-xs text-yellow-400">
+              <FiAlertCircle className="flex-shrink-0" />
+              <span className="truncate">
+                {file.audioTags
+                  ? `Missing tags: ${getAudioTagReport(file).join(", ")}`
+                  : "No audio tags found"}
+              </span>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {file.newName && (
+        <motion.div
+          initial={{ opacity: 0, scale: 0.8 }}
+          animate={{ opacity: 1, scale: 1 }}
+          className="absolute -top-2 left-0 px-2 py-1 bg-primary/10 rounded-full text-xs text-primary font-medium"
+        >
+          Renamed
+        </motion.div>
+      )}
+    </motion.div>
+  );
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+      {/* Toast Container */}
+      <div className="fixed top-4 right-4 z-50 space-y-2">
+        <AnimatePresence>
+          {toasts.map((toast) => (
+            <motion.div
+              key={toast.id}
+              initial={{ opacity: 0, y: -20, scale: 0.8 }}
+              animate={{ opacity: 1, y: 0, scale: 1 }}
+              exit={{ opacity: 0, y: -20, scale: 0.8 }}
+              className={`p-4 rounded-lg shadow-lg flex items-center gap-2 min-w-[300px] ${
+                toast.type === "success"
+                  ? "bg-green-500 text-white"
+                  : toast.type === "error"
+                  ? "bg-red-500 text-white"
+                  : "bg-blue-500 text-white"
+              }`}
+            >
+              {toast.type === "success" && (
+                <FiCheck className="flex-shrink-0" />
+              )}
+              {toast.type === "error" && (
+                <FiAlertCircle className="flex-shrink-0" />
+              )}
+              {toast.type === "loading" && (
+                <svg
+                  className="animate-spin h-5 w-5 flex-shrink-0"
+                  viewBox="0 0 24 24"
                 >
                   <circle
                     className="opacity-25"
@@ -1231,6 +2840,36 @@ const FileRenamer: React.FC = () => {
           File Renamer
         </h1>
         <div className="flex items-center gap-2">
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleUndo}
+            disabled={undoStack.length === 0}
+            title={
+              undoStack.length > 0
+                ? `Undo ${undoStack[undoStack.length - 1].label} (Ctrl+Z)`
+                : "Nothing to undo"
+            }
+            className="px-3 py-2 bg-gray-700 text-white rounded-lg flex items-center gap-2 hover:bg-gray-600 disabled:opacity-50"
+          >
+            <FiRotateCcw />
+            <span className="sr-only">Undo</span>
+          </motion.button>
+          <motion.button
+            whileHover={{ scale: 1.05 }}
+            whileTap={{ scale: 0.95 }}
+            onClick={handleRedo}
+            disabled={redoStack.length === 0}
+            title={
+              redoStack.length > 0
+                ? `Redo ${redoStack[redoStack.length - 1].label} (Ctrl+Shift+Z)`
+                : "Nothing to redo"
+            }
+            className="px-3 py-2 bg-gray-700 text-white rounded-lg flex items-center gap-2 hover:bg-gray-600 disabled:opacity-50"
+          >
+            <FiRotateCw />
+            <span className="sr-only">Redo</span>
+          </motion.button>
           <motion.button
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
@@ -1284,13 +2923,29 @@ const FileRenamer: React.FC = () => {
           />
           <p className="text-lg">
             {isDragReject
-              ? "File too large! Maximum size is 100MB"
-              : `Drag & drop files here, or click to select files (max ${MAX_FILES} files)`}
+              ? `File too large! Maximum size is ${formatFileSize(
+                  fileLimits.maxFileSize
+                )}`
+              : `Drag & drop files here, or click to select files (max ${fileLimits.maxFiles} files)`}
           </p>
           <p className="text-sm text-gray-400 mt-2">
-            Supports images, videos, documents, and more (max 100MB per file)
+            Supports images, videos, documents, and more (max{" "}
+            {formatFileSize(fileLimits.maxFileSize)} per file)
           </p>
         </motion.div>
+        {isFileSystemAccessSupported() && (
+          <div className="flex justify-center mt-4">
+            <motion.button
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={handleOpenFolder}
+              className="px-4 py-2 bg-gray-700 rounded-lg flex items-center gap-2 hover:bg-gray-600"
+            >
+              <FiFolderPlus />
+              <span>Open folder to rename in place</span>
+            </motion.button>
+          </div>
+        )}
       </div>
 
       {files.length > 0 && (
@@ -1380,18 +3035,234 @@ const FileRenamer: React.FC = () => {
               )}
             </div>
 
+            {/* Presets */}
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <FiBookmark className="text-gray-400" />
+              {presets.map((preset) => (
+                <div
+                  key={preset.id}
+                  className="flex items-center rounded-lg bg-gray-700 overflow-hidden"
+                >
+                  <button
+                    onClick={() => handleApplyPreset(preset)}
+                    title="Apply preset"
+                    className="px-3 py-1 hover:bg-gray-600"
+                  >
+                    {preset.name}
+                  </button>
+                  <button
+                    onClick={() => handleDeletePreset(preset)}
+                    title="Delete preset"
+                    className="px-2 py-1 text-gray-400 hover:text-white hover:bg-gray-600"
+                  >
+                    <FiX className="w-3 h-3" />
+                  </button>
+                </div>
+              ))}
+              <input
+                type="text"
+                placeholder="Preset name..."
+                value={presetName}
+                onChange={(e) => setPresetName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleSavePreset()}
+                className="w-36 px-3 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+              />
+              <button
+                onClick={handleSavePreset}
+                title="Save current settings as a preset"
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 flex items-center gap-1"
+              >
+                <FiSave />
+                Save
+              </button>
+              <button
+                onClick={handleExportPresets}
+                disabled={presets.length === 0}
+                title="Export presets as JSON"
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 flex items-center gap-1 disabled:opacity-50"
+              >
+                <FiDownload />
+                Export
+              </button>
+              <button
+                onClick={() => presetFileInput.current?.click()}
+                title="Import presets from JSON"
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 flex items-center gap-1"
+              >
+                <FiUpload />
+                Import
+              </button>
+              <input
+                ref={presetFileInput}
+                type="file"
+                accept=".json,application/json"
+                onChange={handleImportPresets}
+                className="hidden"
+              />
+            </div>
+
             {/* Rename controls */}
             <div className="flex flex-col sm:flex-row gap-4 mt-4">
-              <div className="flex-1 relative">
-                <FiEdit3 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                <input
-                  type="text"
-                  placeholder="Enter base name for files..."
-                  value={baseFileName}
-                  onChange={handleBaseNameChange}
-                  className="w-full pl-10 pr-4 py-2 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
-                />
+              <div className="flex rounded-lg bg-gray-700 p-1 self-start">
+                <button
+                  onClick={() => setRenameMode("sequential")}
+                  className={`px-3 py-1 rounded-md text-sm ${
+                    renameMode === "sequential"
+                      ? "bg-primary text-white"
+                      : "text-gray-300 hover:text-white"
+                  }`}
+                >
+                  Sequential
+                </button>
+                <button
+                  onClick={() => setRenameMode("replace")}
+                  className={`px-3 py-1 rounded-md text-sm ${
+                    renameMode === "replace"
+                      ? "bg-primary text-white"
+                      : "text-gray-300 hover:text-white"
+                  }`}
+                >
+                  Find &amp; Replace
+                </button>
+                <button
+                  onClick={() =>
+                    nameMapping
+                      ? setRenameMode("mapping")
+                      : mappingFileInput.current?.click()
+                  }
+                  className={`px-3 py-1 rounded-md text-sm ${
+                    renameMode === "mapping"
+                      ? "bg-primary text-white"
+                      : "text-gray-300 hover:text-white"
+                  }`}
+                >
+                  Mapping
+                </button>
+                <button
+                  onClick={() => setRenameMode("rules")}
+                  className={`px-3 py-1 rounded-md text-sm ${
+                    renameMode === "rules"
+                      ? "bg-primary text-white"
+                      : "text-gray-300 hover:text-white"
+                  }`}
+                >
+                  Rules
+                </button>
               </div>
+              <input
+                ref={mappingFileInput}
+                type="file"
+                accept=".csv,.tsv,.txt,.json,text/csv,application/json"
+                onChange={handleImportMapping}
+                className="hidden"
+              />
+              {renameMode === "mapping" ? (
+                <div className="flex-1 flex items-center gap-2 min-w-0">
+                  <button
+                    onClick={() => mappingFileInput.current?.click()}
+                    title="Import old and new names from CSV or JSON"
+                    className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 flex items-center gap-2 flex-shrink-0"
+                  >
+                    <FiUpload />
+                    {nameMapping ? "Replace mapping" : "Import mapping"}
+                  </button>
+                  {nameMapping && (
+                    <>
+                      <span
+                        className="text-sm text-gray-300 truncate"
+                        title={nameMapping.source}
+                      >
+                        {nameMapping.source} ({nameMapping.rows.length} rows)
+                      </span>
+                      <button
+                        onClick={handleClearMapping}
+                        title="Clear the mapping"
+                        className="p-2 rounded-lg hover:bg-gray-600 flex-shrink-0"
+                      >
+                        <FiX />
+                      </button>
+                    </>
+                  )}
+                </div>
+              ) : renameMode === "rules" ? (
+                <div className="flex-1 flex items-center gap-2">
+                  <select
+                    value={newRuleKind}
+                    onChange={(e) =>
+                      setNewRuleKind(e.target.value as RenameRuleKind)
+                    }
+                    className="px-3 py-2 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  >
+                    {(Object.keys(RENAME_RULE_LABELS) as RenameRuleKind[]).map(
+                      (kind) => (
+                        <option key={kind} value={kind}>
+                          {RENAME_RULE_LABELS[kind]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                  <button
+                    onClick={handleAddRule}
+                    className="px-3 py-2 rounded-lg bg-gray-700 hover:bg-gray-600 flex items-center gap-2"
+                  >
+                    <FiPlus />
+                    Add rule
+                  </button>
+                </div>
+              ) : renameMode === "sequential" ? (
+                <div className="flex-1 relative">
+                  <FiEdit3 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Enter base name for files..."
+                    value={baseFileName}
+                    onChange={handleBaseNameChange}
+                    className="w-full pl-10 pr-4 py-2 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  />
+                </div>
+              ) : (
+                <div className="flex-1 flex flex-col sm:flex-row gap-2">
+                  <input
+                    type="text"
+                    placeholder={
+                      matchMode === "regex"
+                        ? "Search regex, e.g. ^IMG_"
+                        : "Find..."
+                    }
+                    value={searchText}
+                    onChange={handleSearchChange}
+                    className={`flex-1 min-w-0 px-4 py-2 rounded-lg bg-gray-700 border focus:outline-none ${
+                      searchError
+                        ? "border-red-500 focus:border-red-500"
+                        : "border-gray-600 focus:border-primary"
+                    }`}
+                  />
+                  <input
+                    type="text"
+                    placeholder={
+                      matchMode === "regex"
+                        ? "Replace, e.g. $2_$1"
+                        : "Replace with..."
+                    }
+                    value={replaceText}
+                    onChange={(e) => setReplaceText(e.target.value)}
+                    className="flex-1 min-w-0 px-4 py-2 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  />
+                  <select
+                    value={matchMode}
+                    onChange={handleMatchModeChange}
+                    className="px-3 py-2 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  >
+                    {(Object.keys(MATCH_MODE_LABELS) as MatchMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {MATCH_MODE_LABELS[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+              )}
               <div className="flex items-center gap-2">
                 <div
                   className={`px-3 py-1.5 rounded-full flex items-center gap-2 ${getFileCountColor(
@@ -1399,9 +3270,9 @@ const FileRenamer: React.FC = () => {
                   )}`}
                 >
                   <span>
-                    {filteredFiles.length}/{MAX_FILES} files
+                    {filteredFiles.length}/{fileLimits.maxFiles} files
                   </span>
-                  {filteredFiles.length >= MAX_FILES * 0.8 && (
+                  {filteredFiles.length >= fileLimits.maxFiles * 0.8 && (
                     <motion.span
                       initial={{ scale: 0.5, opacity: 0 }}
                       animate={{ scale: 1, opacity: 1 }}
@@ -1411,11 +3282,20 @@ const FileRenamer: React.FC = () => {
                     </motion.span>
                   )}
                 </div>
+                <button
+                  onClick={() => setShowLimits(!showLimits)}
+                  title="File limits"
+                  className={`p-2 rounded-lg hover:bg-gray-600 ${
+                    showLimits ? "bg-gray-600" : "bg-gray-700"
+                  }`}
+                >
+                  <FiSliders />
+                </button>
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={handleRename}
-                  disabled={!baseFileName || filteredFiles.length === 0}
+                  disabled={!canGenerateNames || filteredFiles.length === 0}
                   className="px-6 py-2 bg-primary rounded-lg flex items-center gap-2 disabled:opacity-50"
                 >
                   {isRenaming ? <FiCheck /> : <FiEdit3 />}
@@ -1428,7 +3308,7 @@ const FileRenamer: React.FC = () => {
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
                   onClick={handleDownload}
-                  disabled={!baseFileName || filteredFiles.length === 0}
+                  disabled={!canGenerateNames || filteredFiles.length === 0}
                   className="px-6 py-2 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center gap-2 disabled:opacity-50"
                 >
                   <FiDownload />
@@ -1437,6 +3317,22 @@ const FileRenamer: React.FC = () => {
                     {selectedFileType !== "all" ? selectedFileType : "All"}
                   </span>
                 </motion.button>
+                {hasDiskFiles && (
+                  <motion.button
+                    whileHover={{ scale: 1.05 }}
+                    whileTap={{ scale: 0.95 }}
+                    onClick={handleApplyToDisk}
+                    disabled={
+                      !canGenerateNames ||
+                      isApplyingToDisk ||
+                      filteredFiles.length === 0
+                    }
+                    className="px-6 py-2 bg-gray-700 rounded-lg flex items-center gap-2 hover:bg-gray-600 disabled:opacity-50"
+                  >
+                    <FiHardDrive />
+                    <span>Apply on disk</span>
+                  </motion.button>
+                )}
                 <motion.button
                   whileHover={{ scale: 1.05 }}
                   whileTap={{ scale: 0.95 }}
@@ -1448,125 +3344,645 @@ const FileRenamer: React.FC = () => {
                 </motion.button>
               </div>
             </div>
-          </div>
 
-          {/* File Grid - Update to use filteredFiles */}
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-            <AnimatePresence>
-              {filteredFiles.map((file, index) => (
-                <motion.div
-                  key={file.name}
-                  initial={{ opacity: 0, scale: 0.8 }}
-                  animate={{ opacity: 1, scale: 1 }}
-                  exit={{ opacity: 0, scale: 0.8 }}
-                  whileHover={{ scale: 1.02 }}
-                  transition={{ type: "spring", stiffness: 300, damping: 20 }}
-                  className="relative p-5 rounded-xl bg-gradient-to-br from-gray-700/50 to-gray-800/50 backdrop-blur-sm border border-gray-700/50 shadow-lg group"
-                >
-                  <button
-                    onClick={() => handleRemoveFile(index)}
-                    className="absolute -top-2 -right-2 p-2 rounded-full bg-red-500 text-white opacity-0 group-hover:opacity-100 transition-all duration-200 transform group-hover:scale-110 shadow-lg hover:bg-red-600"
-                  >
-                    <FiX className="w-4 h-4" />
-                  </button>
+            {/* Naming template */}
+            {renameMode === "sequential" && (
+              <div>
+                <div className="relative">
+                  <FiFileText className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                  <input
+                    type="text"
+                    placeholder="Naming template, e.g. {base}_{n:000}.{ext}"
+                    value={nameTemplate}
+                    onChange={handleTemplateChange}
+                    className={`w-full pl-10 pr-4 py-2 rounded-lg bg-gray-700 border font-mono text-sm focus:outline-none ${
+                      templateError
+                        ? "border-red-500 focus:border-red-500"
+                        : "border-gray-600 focus:border-primary"
+                    }`}
+                  />
+                </div>
+                {templateError ? (
+                  <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                    <FiAlertCircle className="flex-shrink-0" />
+                    {templateError}
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Tokens:{" "}
+                    {Object.keys(TEMPLATE_FIELDS)
+                      .map((name) => `{${name}}`)
+                      .join(" ")}
+                  </p>
+                )}
+              </div>
+            )}
 
-                  <div className="flex items-start gap-4">
-                    <motion.div
-                      className="flex-shrink-0 p-3 rounded-lg bg-gray-800/50 border border-gray-700/50"
-                      whileHover={{ rotate: [0, -10, 10, -10, 0] }}
-                      transition={{ duration: 0.5 }}
-                    >
-                      {getFileIcon(file.type)}
-                    </motion.div>
-                    <div className="flex-1 min-w-0">
-                      {file.newName ? (
-                        <div className="space-y-3">
-                          <div className="relative">
-                            <motion.div
-                              initial={{ opacity: 1 }}
-                              animate={{ opacity: 0.5 }}
-                              className="text-sm text-gray-400 line-through truncate transition-all duration-300"
-                            >
-                              {file.name}
-                            </motion.div>
-                            <motion.div
-                              initial={{ opacity: 0, y: -10 }}
-                              animate={{ opacity: 1, y: 0 }}
-                              className="mt-2"
-                            >
-                              <div className="flex items-center gap-3">
-                                <motion.div
-                                  initial={{ height: 0 }}
-                                  animate={{ height: "100%" }}
-                                  className="w-0.5 bg-gradient-to-b from-primary via-primary/50 to-transparent"
-                                  style={{ height: "24px" }}
-                                />
-                                <div className="flex-1">
-                                  <motion.div
-                                    initial={{ opacity: 0, x: -10 }}
-                                    animate={{ opacity: 1, x: 0 }}
-                                    transition={{ delay: 0.2 }}
-                                    className="text-sm font-medium text-primary truncate bg-primary/5 px-3 py-1.5 rounded-lg border border-primary/10"
-                                  >
-                                    {file.newName}
-                                  </motion.div>
-                                </div>
-                              </div>
-                            </motion.div>
-                          </div>
-                        </div>
-                      ) : (
-                        <div className="text-sm truncate mb-1 text-gray-200">
-                          {file.name}
-                        </div>
-                      )}
-                      <div className="flex items-center gap-2 mt-3">
-                        <div className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md">
-                          {formatFileSize(file.size)}
-                        </div>
-                        <div className="text-xs text-gray-500">•</div>
-                        <div className="text-xs text-gray-400 bg-gray-800/30 px-2 py-1 rounded-md">
-                          {file.type.split("/")[1]?.toUpperCase() || "FILE"}
-                        </div>
-                      </div>
+            {/* Rename rules, run from top to bottom */}
+            {renameMode === "rules" && (
+              <div className="space-y-2">
+                {renameRules.length === 0 && (
+                  <p className="text-sm text-gray-400">
+                    Add rules to change names step by step, e.g. remove the
+                    first characters, replace spaces and add a date.
+                  </p>
+                )}
+                {renameRules.map((rule, index) => (
+                  <div
+                    key={rule.id}
+                    className={`flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-700/50 text-sm text-gray-300 ${
+                      rule.enabled ? "" : "opacity-50"
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={(e) =>
+                        updateRule(rule.id, { enabled: e.target.checked })
+                      }
+                      title={rule.enabled ? "Turn off" : "Turn on"}
+                      className="accent-primary"
+                    />
+                    <span className="font-medium text-gray-200">
+                      {index + 1}. {RENAME_RULE_LABELS[rule.kind]}
+                    </span>
+                    {renderRuleOptions(rule)}
+                    <div className="flex items-center gap-1 ml-auto">
+                      <button
+                        onClick={() => handleMoveRule(rule.id, -1)}
+                        disabled={index === 0}
+                        title="Move up"
+                        className="p-1 rounded hover:bg-gray-600 disabled:opacity-30"
+                      >
+                        <FiArrowUp />
+                      </button>
+                      <button
+                        onClick={() => handleMoveRule(rule.id, 1)}
+                        disabled={index === renameRules.length - 1}
+                        title="Move down"
+                        className="p-1 rounded hover:bg-gray-600 disabled:opacity-30"
+                      >
+                        <FiArrowDown />
+                      </button>
+                      <button
+                        onClick={() => handleRemoveRule(rule.id)}
+                        title="Remove rule"
+                        className="p-1 rounded hover:bg-gray-600"
+                      >
+                        <FiX />
+                      </button>
                     </div>
                   </div>
+                ))}
+                {pipeline.errors.map((message) => (
+                  <p
+                    key={message}
+                    className="text-xs text-red-400 flex items-center gap-1"
+                  >
+                    <FiAlertCircle className="flex-shrink-0" />
+                    {message}
+                  </p>
+                ))}
+              </div>
+            )}
 
-                  {uploadProgress[file.name] !== undefined &&
-                    uploadProgress[file.name] < 100 && (
-                      <motion.div
-                        initial={{ opacity: 0, y: 10 }}
-                        animate={{ opacity: 1, y: 0 }}
-                        className="mt-4"
-                      >
-                        <div className="h-1 bg-gray-800 rounded-full overflow-hidden">
-                          <motion.div
-                            className="h-full bg-gradient-to-r from-primary to-primary/50"
-                            initial={{ width: "0%" }}
-                            animate={{ width: `${uploadProgress[file.name]}%` }}
-                            transition={{ duration: 0.5 }}
-                          />
-                        </div>
-                        <div className="text-xs text-gray-400 mt-1 text-right">
-                          {Math.round(uploadProgress[file.name])}%
-                        </div>
-                      </motion.div>
+            {/* Mapping reconciliation */}
+            {renameMode === "mapping" && mappingMatch && compiledMapping && (
+              <div className="rounded-lg bg-gray-700/50 p-3 text-sm space-y-2">
+                <p className="text-gray-300">
+                  {mappingMatch.matchedFiles.length} of {filteredFiles.length}{" "}
+                  files matched. Unmatched files keep their names.
+                </p>
+                {compiledMapping.errors.length > 0 && (
+                  <ul className="text-xs text-red-400 space-y-0.5">
+                    {compiledMapping.errors
+                      .slice(0, MAPPING_LIST_LIMIT)
+                      .map((message, index) => (
+                        <li key={index} className="flex items-center gap-1">
+                          <FiAlertCircle className="flex-shrink-0" />
+                          {message}
+                        </li>
+                      ))}
+                    {compiledMapping.errors.length > MAPPING_LIST_LIMIT && (
+                      <li>
+                        and {compiledMapping.errors.length - MAPPING_LIST_LIMIT}{" "}
+                        more
+                      </li>
                     )}
+                  </ul>
+                )}
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <div>
+                    <h4 className="text-xs font-semibold text-gray-400 mb-1">
+                      Unmatched files ({mappingMatch.unmatchedFiles.length})
+                    </h4>
+                    <ul className="text-xs text-gray-300 max-h-32 overflow-y-auto space-y-0.5">
+                      {mappingMatch.unmatchedFiles
+                        .slice(0, MAPPING_LIST_LIMIT)
+                        .map((file) => (
+                          <li key={file.id} className="truncate">
+                            {file.relativePath || file.name}
+                          </li>
+                        ))}
+                      {mappingMatch.unmatchedFiles.length >
+                        MAPPING_LIST_LIMIT && (
+                        <li className="text-gray-500">
+                          and{" "}
+                          {mappingMatch.unmatchedFiles.length -
+                            MAPPING_LIST_LIMIT}{" "}
+                          more
+                        </li>
+                      )}
+                    </ul>
+                  </div>
+                  <div>
+                    <h4 className="text-xs font-semibold text-gray-400 mb-1">
+                      Unused rows ({mappingMatch.unusedRows.length})
+                    </h4>
+                    <ul className="text-xs text-gray-300 max-h-32 overflow-y-auto space-y-0.5">
+                      {mappingMatch.unusedRows
+                        .slice(0, MAPPING_LIST_LIMIT)
+                        .map((row) => (
+                          <li key={row.line} className="truncate">
+                            Row {row.line}: {row.from} → {row.to}
+                          </li>
+                        ))}
+                      {mappingMatch.unusedRows.length > MAPPING_LIST_LIMIT && (
+                        <li className="text-gray-500">
+                          and{" "}
+                          {mappingMatch.unusedRows.length - MAPPING_LIST_LIMIT}{" "}
+                          more
+                        </li>
+                      )}
+                    </ul>
+                  </div>
+                </div>
+              </div>
+            )}
 
-                  {file.newName && (
-                    <motion.div
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      className="absolute -top-2 left-0 px-2 py-1 bg-primary/10 rounded-full text-xs text-primary font-medium"
-                    >
-                      Renamed
-                    </motion.div>
+            {/* Numbering */}
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+              Numbering:
+              <select
+                value={numberStyle}
+                onChange={(e) => setNumberStyle(e.target.value as NumberStyle)}
+                className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+              >
+                {(Object.keys(NUMBER_STYLE_LABELS) as NumberStyle[]).map(
+                  (style) => (
+                    <option key={style} value={style}>
+                      {NUMBER_STYLE_LABELS[style]}
+                    </option>
+                  )
+                )}
+              </select>
+              from
+              <input
+                type="number"
+                value={numberStart}
+                onChange={(e) => {
+                  const value = readWholeNumber(e);
+                  if (value !== null) setNumberStart(value);
+                }}
+                className="w-20 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+              />
+              step
+              <input
+                type="number"
+                value={numberStep}
+                onChange={(e) => {
+                  const value = readWholeNumber(e);
+                  if (value !== null) setNumberStep(value);
+                }}
+                className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+              />
+              digits
+              <input
+                type="number"
+                min={0}
+                value={numberPadding}
+                onChange={(e) => {
+                  const value = readWholeNumber(e);
+                  if (value !== null) setNumberPadding(Math.max(value, 0));
+                }}
+                disabled={autoNumberPadding || numberStyle !== "numbers"}
+                className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none disabled:opacity-50"
+              />
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoNumberPadding}
+                  onChange={(e) => setAutoNumberPadding(e.target.checked)}
+                  disabled={numberStyle !== "numbers"}
+                  className="accent-primary"
+                />
+                Auto
+              </label>
+              <select
+                value={numberPosition}
+                onChange={(e) =>
+                  setNumberPosition(e.target.value as NumberPosition)
+                }
+                disabled={!canPlaceNumber}
+                title={
+                  canPlaceNumber
+                    ? undefined
+                    : "Numbers can only be added before or after names from a template without {n}"
+                }
+                className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none disabled:opacity-50"
+              >
+                {(Object.keys(NUMBER_POSITION_LABELS) as NumberPosition[]).map(
+                  (position) => (
+                    <option key={position} value={position}>
+                      {NUMBER_POSITION_LABELS[position]}
+                    </option>
+                  )
+                )}
+              </select>
+              {canPlaceNumber && numberPosition !== "template" && (
+                <input
+                  type="text"
+                  value={numberSeparator}
+                  onChange={(e) => setNumberSeparator(e.target.value)}
+                  title="Separator between the name and the number"
+                  className="w-12 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none font-mono"
+                />
+              )}
+              restart
+              <select
+                value={restartNumbering}
+                onChange={(e) =>
+                  setRestartNumbering(e.target.value as NumberingRestart)
+                }
+                className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+              >
+                {(
+                  Object.keys(NUMBERING_RESTART_LABELS) as NumberingRestart[]
+                ).map((restart) => (
+                  <option key={restart} value={restart}>
+                    {NUMBERING_RESTART_LABELS[restart]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* File limits */}
+            {showLimits && (
+              <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+                <label className="flex items-center gap-2">
+                  Max files:
+                  <input
+                    type="number"
+                    min={1}
+                    value={fileLimits.maxFiles}
+                    onChange={(e) => {
+                      const maxFiles = Math.floor(Number(e.target.value));
+                      if (maxFiles > 0) {
+                        setFileLimits((prev) => ({ ...prev, maxFiles }));
+                      }
+                    }}
+                    className="w-24 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-2">
+                  Max file size (MB):
+                  <input
+                    type="number"
+                    min={1}
+                    value={Math.round(fileLimits.maxFileSize / (1024 * 1024))}
+                    onChange={(e) => {
+                      const megabytes = Math.floor(Number(e.target.value));
+                      if (megabytes > 0) {
+                        setFileLimits((prev) => ({
+                          ...prev,
+                          maxFileSize: megabytes * 1024 * 1024,
+                        }));
+                      }
+                    }}
+                    className="w-24 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  />
+                </label>
+                <label
+                  className="flex items-center gap-2"
+                  title="How many levels of archives inside dropped archives are opened"
+                >
+                  Nested archive depth:
+                  <input
+                    type="number"
+                    min={0}
+                    max={10}
+                    value={fileLimits.maxArchiveDepth}
+                    onChange={(e) => {
+                      const maxArchiveDepth = Math.floor(
+                        Number(e.target.value)
+                      );
+                      if (maxArchiveDepth >= 0 && maxArchiveDepth <= 10) {
+                        setFileLimits((prev) => ({ ...prev, maxArchiveDepth }));
+                      }
+                    }}
+                    className="w-16 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  />
+                </label>
+                <button
+                  onClick={() => setFileLimits(DEFAULT_FILE_LIMITS)}
+                  className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600"
+                >
+                  Reset
+                </button>
+              </div>
+            )}
+
+            {/* Output options */}
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-300">
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2">
+                  Order:
+                  <select
+                    value={sortMode}
+                    onChange={(e) => setSortMode(e.target.value as SortMode)}
+                    className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  >
+                    {(Object.keys(SORT_MODE_LABELS) as SortMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {SORT_MODE_LABELS[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                <button
+                  onClick={() =>
+                    setSortDirection(sortDirection === "asc" ? "desc" : "asc")
+                  }
+                  disabled={sortMode === "manual"}
+                  title={sortDirection === "asc" ? "Ascending" : "Descending"}
+                  className="p-1.5 rounded-lg bg-gray-700 hover:bg-gray-600 disabled:opacity-50"
+                >
+                  {sortDirection === "asc" ? <FiArrowUp /> : <FiArrowDown />}
+                </button>
+              </div>
+              <label className="flex items-center gap-2">
+                If names clash:
+                <select
+                  value={collisionPolicy}
+                  onChange={(e) =>
+                    setCollisionPolicy(e.target.value as CollisionPolicy)
+                  }
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                >
+                  {(
+                    Object.keys(COLLISION_POLICY_LABELS) as CollisionPolicy[]
+                  ).map((policy) => (
+                    <option key={policy} value={policy}>
+                      {COLLISION_POLICY_LABELS[policy]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="flex items-center gap-2">
+                <label className="flex items-center gap-2">
+                  Case:
+                  <select
+                    value={nameCase}
+                    onChange={(e) => setNameCase(e.target.value as NameCase)}
+                    className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                  >
+                    {(Object.keys(NAME_CASE_LABELS) as NameCase[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {NAME_CASE_LABELS[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                <select
+                  value={nameCaseTarget}
+                  onChange={(e) =>
+                    setNameCaseTarget(e.target.value as NameCaseTarget)
+                  }
+                  disabled={nameCase === "none"}
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none disabled:opacity-50"
+                >
+                  {(
+                    Object.keys(NAME_CASE_TARGET_LABELS) as NameCaseTarget[]
+                  ).map((target) => (
+                    <option key={target} value={target}>
+                      {NAME_CASE_TARGET_LABELS[target]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2">
+                Target:
+                <select
+                  value={targetPlatform}
+                  onChange={(e) =>
+                    setTargetPlatform(e.target.value as TargetPlatform)
+                  }
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                >
+                  {(
+                    Object.keys(TARGET_PLATFORM_LABELS) as TargetPlatform[]
+                  ).map((platform) => (
+                    <option key={platform} value={platform}>
+                      {TARGET_PLATFORM_LABELS[platform]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={autoFixNames}
+                  onChange={(e) => setAutoFixNames(e.target.checked)}
+                  className="accent-primary"
+                />
+                Auto-fix names
+                {nameResolution.issues.size > 0 && (
+                  <span className="text-red-400">
+                    ({nameResolution.issues.size} to fix)
+                  </span>
+                )}
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={lowercaseExtensions}
+                  onChange={(e) => setLowercaseExtensions(e.target.checked)}
+                  className="accent-primary"
+                />
+                Lowercase extensions
+              </label>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={normalizeExtensionAliases}
+                  onChange={(e) =>
+                    setNormalizeExtensionAliases(e.target.checked)
+                  }
+                  className="accent-primary"
+                />
+                Normalise extensions (jpeg → jpg, tif → tiff)
+              </label>
+              <label className="flex items-center gap-2">
+                Extension:
+                <input
+                  type="text"
+                  placeholder="keep"
+                  value={replacementExtension}
+                  onChange={(e) =>
+                    setReplacementExtension(
+                      sanitizeFileName(e.target.value).replace(/^\.+/, "")
+                    )
+                  }
+                  className="w-20 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                />
+              </label>
+              {hasMismatchedFiles && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={fixExtensions}
+                    onChange={(e) => setFixExtensions(e.target.checked)}
+                    className="accent-primary"
+                  />
+                  Fix mismatched extensions
+                </label>
+              )}
+              {hasPinnedFiles && (
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={overwritePinned}
+                    onChange={(e) => setOverwritePinned(e.target.checked)}
+                    className="accent-primary"
+                  />
+                  Overwrite pinned names
+                </label>
+              )}
+              <label className="flex items-center gap-2">
+                Archive:
+                <select
+                  value={archiveFormat}
+                  onChange={(e) =>
+                    setArchiveFormat(e.target.value as ArchiveFormat)
+                  }
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                >
+                  {(Object.keys(ARCHIVE_FORMAT_LABELS) as ArchiveFormat[]).map(
+                    (format) => (
+                      <option key={format} value={format}>
+                        {ARCHIVE_FORMAT_LABELS[format]}
+                      </option>
+                    )
                   )}
-                </motion.div>
-              ))}
-            </AnimatePresence>
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Compression:
+                <select
+                  value={compressionLevel}
+                  onChange={(e) =>
+                    setCompressionLevel(
+                      Number(e.target.value) as CompressionLevel
+                    )
+                  }
+                  disabled={!isCompressedFormat(archiveFormat)}
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none disabled:opacity-50"
+                >
+                  {(
+                    Object.keys(COMPRESSION_LEVEL_LABELS).map(
+                      Number
+                    ) as CompressionLevel[]
+                  ).map((level) => (
+                    <option key={level} value={level}>
+                      {COMPRESSION_LEVEL_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                Archive name:
+                <input
+                  type="text"
+                  value={archiveName}
+                  onChange={(e) => setArchiveName(e.target.value)}
+                  placeholder={DEFAULT_ARCHIVE_NAME}
+                  title={`Fields: ${Object.keys(ARCHIVE_NAME_FIELDS)
+                    .map((field) => `{${field}} ${ARCHIVE_NAME_FIELDS[field]}`)
+                    .join(", ")}`}
+                  className="w-40 px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                />
+                <span className="text-gray-500">
+                  {formatArchiveName(archiveName, archiveFormat, {
+                    base: baseFileName,
+                    count: filteredFiles.length,
+                  })}
+                </span>
+              </label>
+              <label
+                className="flex items-center gap-2"
+                title="List the original and new name, path, size, type and SHA-256 hash of every file in the archive"
+              >
+                Manifest:
+                <select
+                  value={manifestFormat}
+                  onChange={(e) =>
+                    setManifestFormat(e.target.value as ManifestFormat)
+                  }
+                  className="px-2 py-1 rounded-lg bg-gray-700 border border-gray-600 focus:border-primary focus:outline-none"
+                >
+                  {(
+                    Object.keys(MANIFEST_FORMAT_LABELS) as ManifestFormat[]
+                  ).map((format) => (
+                    <option key={format} value={format}>
+                      {MANIFEST_FORMAT_LABELS[format]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label
+                className="flex items-center gap-2 cursor-pointer"
+                title="Add rename.sh and rename.ps1, which rename the original files on your disk the same way, and revert scripts that undo it"
+              >
+                <input
+                  type="checkbox"
+                  checked={includeRenameScripts}
+                  onChange={(e) => setIncludeRenameScripts(e.target.checked)}
+                  className="accent-primary"
+                />
+                Include rename scripts
+              </label>
+              {hasFolders && (
+                <>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={groupByFolder}
+                      onChange={(e) => setGroupByFolder(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    Group by folder
+                  </label>
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={preserveFolders}
+                      onChange={(e) => setPreserveFolders(e.target.checked)}
+                      className="accent-primary"
+                    />
+                    Keep folder structure in archive
+                  </label>
+                </>
+              )}
+            </div>
           </div>
 
+          {/* File Grid - only the cards near the screen are rendered */}
+          <VirtualGrid groups={gridGroups} renderItem={renderFileCard} />
+
           {/* History Panel */}
           <AnimatePresence>
             {showHistory && (
@@ -1579,21 +3995,65 @@ const FileRenamer: React.FC = () => {
                 <h3 className="text-lg font-semibold mb-4">Recent Renames</h3>
                 <div className="space-y-2 max-h-60 overflow-y-auto">
                   {history.map((entry, index) => (
-                    <div
-                      key={index}
-                      className="flex items-center gap-3 text-sm p-2 hover:bg-gray-700 rounded"
-                    >
-                      <div className="flex-shrink-0">
-                        {getFileIcon(entry.fileType)}
-                      </div>
-                      <div className="flex-1">
-                        <div className="text-gray-400">{entry.oldName}</div>
-                        <div className="text-primary">→ {entry.newName}</div>
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {new Date(entry.timestamp).toLocaleString()}
+                    <React.Fragment key={index}>
+                      {entry.batchId &&
+                        entry.batchId !== history[index - 1]?.batchId && (
+                          <div className="flex items-center justify-between text-xs text-gray-400 pt-2">
+                            <span>
+                              Batch of{" "}
+                              {
+                                history.filter(
+                                  (e) => e.batchId === entry.batchId
+                                ).length
+                              }{" "}
+                              renames
+                            </span>
+                            {/* Renames on disk cannot be reverted here */}
+                            {!entry.status && (
+                              <button
+                                onClick={() =>
+                                  handleRevertBatch(entry.batchId as string)
+                                }
+                                className="px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-200 flex items-center gap-1"
+                              >
+                                <FiRotateCcw />
+                                Revert batch
+                              </button>
+                            )}
+                          </div>
+                        )}
+                      <div className="flex items-center gap-3 text-sm p-2 hover:bg-gray-700 rounded">
+                        <div className="flex-shrink-0">
+                          {getFileIcon(entry.fileType)}
+                        </div>
+                        <div className="flex-1">
+                          <div className="text-gray-400">{entry.oldName}</div>
+                          <div
+                            className={
+                              entry.status === "error"
+                                ? "text-red-400 line-through"
+                                : "text-primary"
+                            }
+                          >
+                            → {entry.newName}
+                          </div>
+                          {entry.message && (
+                            <div
+                              className={`text-xs ${
+                                entry.status === "error"
+                                  ? "text-red-400"
+                                  : "text-gray-500"
+                              }`}
+                            >
+                              {entry.message}
+                            </div>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {new Date(entry.timestamp).toLocaleString()}
+                        </div>
                       </div>
-                    </div>
+                    </React.Fragment>
                   ))}
                 </div>
               </motion.div>
@@ -1602,23 +4062,46 @@ const FileRenamer: React.FC = () => {
         </motion.div>
       )}
 
-      {/* Add download progress bar */}
-      {uploadProgress.download > 0 && uploadProgress.download < 100 && (
+      {/* Progress of the running activity */}
+      {activity && (
         <motion.div
           initial={{ opacity: 0 }}
           animate={{ opacity: 1 }}
           exit={{ opacity: 0 }}
-          className="fixed bottom-4 right-4 w-64 bg-gray-800 p-4 rounded-lg shadow-lg"
+          className="fixed bottom-4 right-4 w-72 bg-gray-800 p-4 rounded-lg shadow-lg"
         >
-          <div className="text-sm mb-2">Creating download...</div>
+          <div className="flex items-start justify-between gap-2 mb-2">
+            <div className="text-sm truncate">{activity.label}...</div>
+            <button
+              onClick={handleCancelActivity}
+              className="text-xs text-gray-400 hover:text-red-400 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
           <div className="h-1 bg-gray-600 rounded-full overflow-hidden">
             <motion.div
               className="h-full bg-primary"
               initial={{ width: "0%" }}
-              animate={{ width: `${uploadProgress.download}%` }}
+              animate={{
+                width: `${
+                  activity.total > 0
+                    ? (activity.processed / activity.total) * 100
+                    : 0
+                }%`,
+              }}
               transition={{ duration: 0.5 }}
             />
           </div>
+          {activity.total > 0 && (
+            <div className="text-xs text-gray-400 mt-1 text-right">
+              {activity.unit === "bytes"
+                ? `${formatFileSize(activity.processed)} of ${formatFileSize(
+                    activity.total
+                  )}`
+                : `${activity.processed} of ${activity.total} files`}
+            </div>
+          )}
         </motion.div>
       )}
 
@@ -1660,20 +4143,138 @@ const FileRenamer: React.FC = () => {
                   <FiEdit3 className="text-primary" />
                   <span>Enter a base name for your files</span>
                 </p>
+                <p className="flex items-center gap-2">
+                  <FiFileText className="text-primary" />
+                  <span>
+                    Customise names with a template like{" "}
+                    <code>{"{base}_{n:000}.{ext}"}</code>
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiEdit3 className="text-primary" />
+                  <span>
+                    Use Find &amp; Replace to edit names, with regex and $1
+                    backreferences
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiTable className="text-primary" />
+                  <span>
+                    Import a CSV or JSON list of old and new names in Mapping
+                    mode, and check which files and rows didn't match
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiSliders className="text-primary" />
+                  <span>
+                    Build a list of rules in Rules mode, like removing
+                    characters, replacing text or adding numbers. Each file
+                    shows its name after every step, and presets save the rules.
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiAlertCircle className="text-primary" />
+                  <span>
+                    Files whose extension does not match their content are
+                    flagged, and can get the right extension when renamed
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiType className="text-primary" />
+                  <span>
+                    Change the case of names or turn them into URL-safe slugs,
+                    before or after the template is applied
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiAlertCircle className="text-primary" />
+                  <span>
+                    Pick a target system to check names for reserved words,
+                    invalid characters, length limits and case clashes before
+                    export
+                  </span>
+                </p>
                 <p className="flex items-center gap-2">
                   <FiGrid className="text-primary" />
                   <span>
                     Filter files by type using the buttons above the file list
                   </span>
                 </p>
+                <p className="flex items-center gap-2">
+                  <FiMove className="text-primary" />
+                  <span>
+                    Sort files or drag cards to set the order used for numbering
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiBookmark className="text-primary" />
+                  <span>
+                    Save your settings as presets and share them as a JSON file
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiEdit2 className="text-primary" />
+                  <span>
+                    Double-click a file to give it its own name, which batch
+                    renames keep
+                  </span>
+                </p>
                 <p className="flex items-center gap-2">
                   <FiDownload className="text-primary" />
-                  <span>Download renamed files as a ZIP archive</span>
+                  <span>
+                    Download renamed files as a ZIP, TAR or TAR.GZ archive,
+                    built in the background while you keep working. Use Store
+                    for photos and videos that are already compressed.
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiFileText className="text-primary" />
+                  <span>
+                    Add a manifest of the old and new names to the download, and
+                    scripts that rename or restore the originals on your own
+                    disk
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiX className="text-primary" />
+                  <span>
+                    Cancel long imports, downloads and renames from the progress
+                    panel in the bottom corner
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiSliders className="text-primary" />
+                  <span>
+                    Change the file count and size limits with the button next
+                    to the file count
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiFolder className="text-primary" />
+                  <span>
+                    Dropped folders and ZIP, TAR and GZ archives keep their
+                    folder structure in the download. Archives inside them are
+                    opened too.
+                  </span>
+                </p>
+                <p className="flex items-center gap-2">
+                  <FiHardDrive className="text-primary" />
+                  <span>
+                    Open a folder to rename files in place on disk (Chrome and
+                    Edge)
+                  </span>
                 </p>
                 <p className="flex items-center gap-2">
                   <FiClock className="text-primary" />
                   <span>View rename history to track your changes</span>
                 </p>
+                <p className="flex items-center gap-2">
+                  <FiRotateCcw className="text-primary" />
+                  <span>
+                    Undo and redo with Ctrl+Z and Ctrl+Shift+Z, or revert a
+                    whole batch from the history
+                  </span>
+                </p>
               </div>
             </motion.div>
           </motion.div>
@@ -0,0 +1,193 @@
+import React, {
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { AnimatePresence } from "framer-motion";
+
+export interface VirtualGridGroup<T> {
+  key: string;
+  // Shown above the items of the group, e.g. the folder name
+  header?: React.ReactNode;
+  items: T[];
+}
+
+interface VirtualGridProps<T> {
+  groups: VirtualGridGroup<T>[];
+  renderItem: (item: T) => React.ReactNode;
+}
+
+interface GridRow<T> {
+  key: string;
+  header?: React.ReactNode;
+  items?: T[];
+  // Groups after the first get some space above their header
+  spaced?: boolean;
+}
+
+// Height assumed for rows that haven't been on screen yet
+const ESTIMATED_ROW_HEIGHT = 260;
+// Screen heights rendered above and below the visible part, so fast
+// scrolling doesn't show gaps
+const OVERSCAN_SCREENS = 1;
+// Scroll distance that causes a new render
+const SCROLL_STEP = 100;
+
+// Columns of the grid at the current width, following Tailwind's sm and lg
+// breakpoints used by the row classes below
+const getColumnCount = () =>
+  window.innerWidth >= 1024 ? 3 : window.innerWidth >= 640 ? 2 : 1;
+
+interface MeasuredRowProps {
+  rowKey: string;
+  observer: ResizeObserver;
+  className?: string;
+  children: React.ReactNode;
+}
+
+// A row that reports its height, so rows off screen can be replaced by
+// space of the right size
+const MeasuredRow: React.FC<MeasuredRowProps> = ({
+  rowKey,
+  observer,
+  className,
+  children,
+}) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    observer.observe(element);
+    return () => observer.unobserve(element);
+  }, [observer]);
+
+  return (
+    <div ref={ref} data-row-key={rowKey} className={className}>
+      {children}
+    </div>
+  );
+};
+
+// A grid that only renders the rows near the visible part of the page, so
+// thousands of files can be shown without slowing the browser down
+const VirtualGrid = <T,>({ groups, renderItem }: VirtualGridProps<T>) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rowHeights = useRef(new Map<string, number>());
+  const [columns, setColumns] = useState(getColumnCount);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [, setMeasuredRows] = useState(0);
+
+  const observer = useMemo(
+    () =>
+      new ResizeObserver((entries) => {
+        let changed = false;
+        entries.forEach(({ target }) => {
+          const element = target as HTMLElement;
+          const key = element.dataset.rowKey;
+          if (key && rowHeights.current.get(key) !== element.offsetHeight) {
+            rowHeights.current.set(key, element.offsetHeight);
+            changed = true;
+          }
+        });
+        if (changed) setMeasuredRows((count) => count + 1);
+      }),
+    []
+  );
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  // Follow the page scroll, as the grid is part of the page
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const container = containerRef.current;
+      if (!container) return;
+      const top = -container.getBoundingClientRect().top;
+      setScrollTop(Math.floor(top / SCROLL_STEP) * SCROLL_STEP);
+      setColumns(getColumnCount());
+    };
+    const scheduleUpdate = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    update();
+    window.addEventListener("scroll", scheduleUpdate, { passive: true });
+    window.addEventListener("resize", scheduleUpdate);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", scheduleUpdate);
+      window.removeEventListener("resize", scheduleUpdate);
+    };
+  }, []);
+
+  const rows = useMemo(() => {
+    const result: GridRow<T>[] = [];
+    groups.forEach(({ key, header, items }, groupIndex) => {
+      if (header) {
+        result.push({ key: `${key}:header`, header, spaced: groupIndex > 0 });
+      }
+      for (let i = 0; i < items.length; i += columns) {
+        result.push({
+          key: `${key}:${columns}:${i}`,
+          items: items.slice(i, i + columns),
+        });
+      }
+    });
+    return result;
+  }, [groups, columns]);
+
+  const overscan = window.innerHeight * OVERSCAN_SCREENS;
+  const visibleTop = scrollTop - overscan;
+  const visibleBottom = scrollTop + window.innerHeight + overscan;
+  const visibleRows: GridRow<T>[] = [];
+  let spaceAbove = 0;
+  let spaceBelow = 0;
+  let offset = 0;
+  rows.forEach((row) => {
+    const height = rowHeights.current.get(row.key) ?? ESTIMATED_ROW_HEIGHT;
+    if (offset + height < visibleTop) {
+      spaceAbove += height;
+    } else if (offset > visibleBottom) {
+      spaceBelow += height;
+    } else {
+      visibleRows.push(row);
+    }
+    offset += height;
+  });
+
+  return (
+    <div ref={containerRef}>
+      <div style={{ height: spaceAbove }} />
+      {visibleRows.map((row) =>
+        row.items ? (
+          <MeasuredRow
+            key={row.key}
+            rowKey={row.key}
+            observer={observer}
+            className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 pb-4"
+          >
+            {/* Cards scrolled back into view shouldn't animate in again */}
+            <AnimatePresence initial={false}>
+              {row.items.map(renderItem)}
+            </AnimatePresence>
+          </MeasuredRow>
+        ) : (
+          <MeasuredRow
+            key={row.key}
+            rowKey={row.key}
+            observer={observer}
+            className={row.spaced ? "pt-4 pb-3" : "pb-3"}
+          >
+            {row.header}
+          </MeasuredRow>
+        )
+      )}
+      <div style={{ height: spaceBelow }} />
+    </div>
+  );
+};
+
+export default VirtualGrid;
@@ -0,0 +1,127 @@
+import { ArchiveFormat, formatArchiveName, writeArchive } from "./archive";
+import { ArchiveEntry } from "./archiveStream";
+import { extractArchive } from "./extract";
+
+const MODIFIED = Date.UTC(2026, 4, 1, 10, 30);
+
+const createEntry = (path: string, content: string | Uint8Array) => {
+  const blob = new Blob([content]);
+  const entry: ArchiveEntry = {
+    path,
+    file: {
+      name: path,
+      size: blob.size,
+      lastModified: MODIFIED,
+      slice: (start?: number, end?: number) => blob.slice(start, end),
+    },
+  };
+  return entry;
+};
+
+// Bytes that barely compress, so stored and deflated entries both show up
+const noise = new Uint8Array(70000).map((_, index) => (index * 7919) % 251);
+
+const ENTRIES = [
+  createEntry("holiday_1.jpg", noise),
+  createEntry("notes/holiday_2.txt", "hello ".repeat(1000)),
+  createEntry("notes/empty.txt", ""),
+  createEntry(`long/${"folder-".repeat(20)}/Café Москва.txt`, "accents"),
+];
+
+const writeToBlob = async (format: ArchiveFormat, level?: 0 | 6) => {
+  const chunks: Uint8Array[] = [];
+  await writeArchive(
+    ENTRIES,
+    {
+      write: async (chunk) => {
+        chunks.push(chunk.slice());
+      },
+    },
+    format,
+    { level }
+  );
+  return new Blob(chunks);
+};
+
+describe("writeArchive", () => {
+  test.each<[ArchiveFormat, 0 | 6]>([
+    ["zip", 0],
+    ["zip", 6],
+    ["tar", 6],
+    ["tar.gz", 6],
+  ])(
+    "writes a %s archive at level %d that reads back",
+    async (format, level) => {
+      const blob = await writeToBlob(format, level);
+      const result = await extractArchive({
+        path: `renamed.${format}`,
+        blob,
+        lastModified: MODIFIED,
+      });
+
+      expect(result.opened).toBe(true);
+      expect(result.problems).toEqual([]);
+      expect(result.files.map(({ path }) => path)).toEqual(
+        ENTRIES.map(({ path }) => path)
+      );
+      for (let index = 0; index < ENTRIES.length; index++) {
+        const { file } = ENTRIES[index];
+        const extracted = result.files[index];
+        expect(new Uint8Array(await extracted.blob.arrayBuffer())).toEqual(
+          new Uint8Array(await file.slice().arrayBuffer())
+        );
+      }
+    }
+  );
+
+  test("keeps modification times in tar archives", async () => {
+    const result = await extractArchive({
+      path: "renamed.tar",
+      blob: await writeToBlob("tar"),
+      lastModified: 0,
+    });
+    // ZIP keeps times to two seconds in local time, tar to the second
+    expect(result.files.map(({ lastModified }) => lastModified)).toEqual(
+      ENTRIES.map(() => MODIFIED)
+    );
+  });
+
+  test("reports the progress of every file", async () => {
+    const progress: number[] = [];
+    await writeArchive(ENTRIES, { write: async () => undefined }, "zip", {
+      onProgress: (_processed, _total, entriesWritten) =>
+        progress.push(entriesWritten),
+    });
+    expect(progress[progress.length - 1]).toBe(ENTRIES.length);
+  });
+});
+
+describe("formatArchiveName", () => {
+  const date = new Date(2026, 9, 19, 8, 5, 3);
+
+  test("fills in the fields and adds the extension", () => {
+    expect(
+      formatArchiveName("{base}_{count}_{date}_{time}", "tar.gz", {
+        base: "trip",
+        count: 12,
+        date,
+      })
+    ).toBe("trip_12_2026-10-19_08-05-03.tar.gz");
+  });
+
+  test("leaves unknown fields alone and never gives an empty name", () => {
+    expect(
+      formatArchiveName("{base}_{unknown}", "zip", { base: "", count: 0, date })
+    ).toBe("renamed_{unknown}.zip");
+    expect(
+      formatArchiveName("{constructor}_{toString}", "zip", {
+        base: "x",
+        count: 0,
+        date,
+      })
+    ).toBe("{constructor}_{toString}.zip");
+    expect(formatArchiveName("   ", "zip", { base: "x", count: 0, date })).toBe(
+      "renamed_files.zip"
+    );
+  });
+});
@@ -0,0 +1,97 @@
+import { sanitizeFileName } from "../utils/fileNames";
+import { formatDate } from "../utils/namingTemplate";
+import {
+  ArchiveEntry,
+  ArchiveSink,
+  ArchiveWriteOptions,
+  CompressionLevel,
+} from "./archiveStream";
+import { writeTar } from "./tar";
+import { writeZip } from "./zip";
+
+export type ArchiveFormat = "zip" | "tar" | "tar.gz";
+
+export const ARCHIVE_FORMAT_LABELS: { [format in ArchiveFormat]: string } = {
+  zip: "ZIP",
+  tar: "TAR",
+  "tar.gz": "TAR.GZ",
+};
+
+export const COMPRESSION_LEVEL_LABELS: {
+  [level in CompressionLevel]: string;
+} = {
+  0: "Store (no compression)",
+  1: "1 (fastest)",
+  2: "2",
+  3: "3",
+  4: "4",
+  5: "5",
+  6: "6 (default)",
+  7: "7",
+  8: "8",
+  9: "9 (smallest)",
+};
+
+export const DEFAULT_ARCHIVE_NAME = "{base}_files";
+
+// Fields archive name templates can use, with a description of each
+export const ARCHIVE_NAME_FIELDS: { [field: string]: string } = {
+  base: 'Base name, or "renamed" when there is none',
+  count: "Number of files in the archive",
+  date: "Today's date as YYYY-MM-DD",
+  time: "The current time as HH-mm-ss",
+  format: "Archive format, e.g. zip",
+};
+
+// Plain TAR archives are never compressed
+export const isCompressedFormat = (format: ArchiveFormat) => format !== "tar";
+
+// Find the archive format of a file name from its extension
+export const getArchiveFormat = (fileName: string): ArchiveFormat | null => {
+  const lowerName = fileName.toLowerCase();
+  if (lowerName.endsWith(".zip")) return "zip";
+  if (lowerName.endsWith(".tar")) return "tar";
+  if (lowerName.endsWith(".tar.gz") || lowerName.endsWith(".tgz")) {
+    return "tar.gz";
+  }
+  return null;
+};
+
+// Fill in an archive name template and add the extension of the format.
+// Unknown fields are left as they are.
+export const formatArchiveName = (
+  template: string,
+  format: ArchiveFormat,
+  {
+    base,
+    count,
+    date = new Date(),
+  }: { base: string; count: number; date?: Date }
+): string => {
+  const values: { [field: string]: string } = {
+    base: base || "renamed",
+    count: count.toString(),
+    date: formatDate(date, "YYYY-MM-DD"),
+    time: formatDate(date, "HH-mm-ss"),
+    format,
+  };
+  const name = sanitizeFileName(
+    template.replace(/\{(\w+)\}/g, (match, field: string) =>
+      Object.prototype.hasOwnProperty.call(values, field)
+        ? values[field]
+        : match
+    )
+  ).trim();
+  return `${name || "renamed_files"}.${format}`;
+};
+
+// Write files into an archive of the given format under their new paths
+export const writeArchive = (
+  entries: ArchiveEntry[],
+  sink: ArchiveSink,
+  format: ArchiveFormat,
+  options: ArchiveWriteOptions = {}
+): Promise<void> =>
+  format === "zip"
+    ? writeZip(entries, sink, options)
+    : writeTar(entries, sink, { ...options, gzip: format === "tar.gz" });
@@ -0,0 +1,144 @@
+import { Deflate, Inflate } from "pako";
+
+// Anything that can be read in parts like a File, including files read by
+// the CLI
+export interface ArchiveSource {
+  name: string;
+  size: number;
+  lastModified: number;
+  slice: (start?: number, end?: number) => Blob;
+}
+
+export interface ArchiveEntry {
+  // Path of the file inside the archive
+  path: string;
+  file: ArchiveSource;
+}
+
+// Where an archive goes as it is written, such as a file on disk. Only a
+// few chunks are held in memory at a time, so archives can be any size.
+export interface ArchiveSink {
+  write: (chunk: Uint8Array) => Promise<void>;
+}
+
+// A file read out of an archive
+export interface ExtractedFile {
+  // Path of the file inside the archive
+  path: string;
+  blob: Blob;
+  lastModified: number;
+}
+
+// 0 stores files as they are, 1 is fastest and 9 makes the smallest archive
+export type CompressionLevel = 0 | 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export const DEFAULT_COMPRESSION_LEVEL: CompressionLevel = 6;
+
+export interface ArchiveWriteOptions {
+  level?: CompressionLevel;
+  // Called with the number of bytes read so far out of the total, and the
+  // number of files completely written
+  onProgress?: (
+    processedSize: number,
+    totalSize: number,
+    entriesWritten: number
+  ) => void;
+  // Called with each chunk of a file as it's read, e.g. to hash it
+  onRead?: (entryIndex: number, chunk: Uint8Array) => void;
+  // Files made once all the others are written, such as a manifest of them
+  getExtraEntries?: () => ArchiveEntry[];
+  // Stops writing with an AbortError once aborted
+  signal?: AbortSignal;
+}
+
+// Amount of a file read at once
+const READ_CHUNK_SIZE = 1024 * 1024;
+
+// Read a file in chunks, passing each one on as soon as it's read
+export const readChunks = async (
+  file: ArchiveSource,
+  onChunk: (chunk: Uint8Array) => Promise<void>,
+  signal?: AbortSignal
+) => {
+  for (let start = 0; start < file.size; start += READ_CHUNK_SIZE) {
+    if (signal?.aborted) {
+      throw new DOMException("Writing the archive was cancelled", "AbortError");
+    }
+    let chunk: Uint8Array;
+    try {
+      const end = Math.min(start + READ_CHUNK_SIZE, file.size);
+      chunk = new Uint8Array(await file.slice(start, end).arrayBuffer());
+    } catch (err) {
+      console.error(`Error processing file ${file.name}:`, err);
+      throw new Error(`Failed to process file ${file.name}`);
+    }
+    await onChunk(chunk);
+  }
+};
+
+// Compress data written to it into the sink, as raw DEFLATE for ZIP
+// entries or as gzip
+export const createDeflater = (
+  sink: ArchiveSink,
+  level: CompressionLevel,
+  format: "raw" | "gzip"
+) => {
+  const deflate = new Deflate({
+    level,
+    raw: format === "raw",
+    gzip: format === "gzip",
+    chunkSize: 64 * 1024,
+  });
+  let output: Uint8Array[] = [];
+  deflate.onData = (chunk) => {
+    output.push(chunk);
+  };
+
+  const push = async (data: Uint8Array, last: boolean) => {
+    if (!deflate.push(data, last) && deflate.err) {
+      throw new Error(`Failed to compress the archive: ${deflate.msg}`);
+    }
+    const chunks = output;
+    output = [];
+    for (const chunk of chunks) {
+      await sink.write(chunk);
+    }
+  };
+
+  return {
+    write: (chunk: Uint8Array) => push(chunk, false),
+    // Write out whatever is left once all the data has been written
+    finish: () => push(new Uint8Array(0), true),
+  };
+};
+
+// Decompress gzip data written to it into the sink. The header holds the
+// original name and time of a single compressed file.
+export const createInflater = (sink: ArchiveSink) => {
+  const inflate = new Inflate({ chunkSize: 64 * 1024 });
+  let output: Uint8Array[] = [];
+  inflate.onData = (chunk) => {
+    output.push(chunk);
+  };
+
+  const push = async (data: Uint8Array, last: boolean) => {
+    // Anything after the end of the compressed data is ignored
+    if (inflate.ended) return;
+    if (!inflate.push(data, last) && inflate.err) {
+      throw new Error(
+        `isn't valid gzip data (${inflate.msg || "it ends too early"})`
+      );
+    }
+    const chunks = output;
+    output = [];
+    for (const chunk of chunks) {
+      await sink.write(chunk);
+    }
+  };
+
+  return {
+    write: (chunk: Uint8Array) => push(chunk, false),
+    finish: () => push(new Uint8Array(0), true),
+    getHeader: () => inflate.header,
+  };
+};
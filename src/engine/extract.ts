@@ -0,0 +1,368 @@
+import JSZip from "jszip";
+import { getExtension, getNameWithoutExtension } from "../utils/fileNames";
+import {
+  SIGNATURE_READ_LIMIT,
+  sniffFileSignature,
+} from "../utils/fileSignatures";
+import {
+  ArchiveSource,
+  createInflater,
+  ExtractedFile,
+  readChunks,
+} from "./archiveStream";
+import { createTarReader, isTarHeader } from "./tar";
+
+// An archive that couldn't be opened and why, e.g. "is password-protected"
+export interface ArchiveProblem {
+  path: string;
+  message: string;
+}
+
+export interface ExtractionResult {
+  // Whether the archive itself could be opened. If not, its files are
+  // empty and the problem says why.
+  opened: boolean;
+  files: ExtractedFile[];
+  // Nested archives that couldn't be opened are kept as files and listed
+  // here
+  problems: ArchiveProblem[];
+}
+
+export interface ExtractOptions {
+  // How many levels of archives inside the archive are opened as well
+  maxDepth?: number;
+  // Called with the number of files read so far out of those found so far
+  onProgress?: (extracted: number, total: number) => void;
+  // Stops extracting with an AbortError once aborted
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_ARCHIVE_DEPTH = 3;
+
+type ArchiveKind = "zip" | "gzip" | "tar" | "rar" | "7z";
+
+type TarReader = ReturnType<typeof createTarReader>;
+
+const ARCHIVE_EXTENSIONS = ["zip", "tar", "tar.gz", "tgz", "gz", "rar", "7z"];
+
+const ARCHIVE_KINDS: { [mime: string]: ArchiveKind } = {
+  "application/zip": "zip",
+  "application/gzip": "gzip",
+  "application/x-tar": "tar",
+  "application/vnd.rar": "rar",
+  "application/x-7z-compressed": "7z",
+};
+
+// Archives that are recognised but can't be read here
+const UNSUPPORTED_KINDS: { [kind in ArchiveKind]?: string } = {
+  rar: "RAR",
+  "7z": "7z",
+};
+
+const TAR_HEADER_SIZE = 512;
+
+// Check whether a file name has the extension of an archive
+export const isArchiveFileName = (fileName: string) =>
+  ARCHIVE_EXTENSIONS.includes(getExtension(fileName).toLowerCase());
+
+const toArchiveSource = ({
+  path,
+  blob,
+  lastModified,
+}: ExtractedFile): ArchiveSource => ({
+  name: path,
+  size: blob.size,
+  lastModified,
+  slice: (start?: number, end?: number) => blob.slice(start, end),
+});
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) {
+    throw new DOMException(
+      "Extracting the archive was cancelled",
+      "AbortError"
+    );
+  }
+};
+
+// Tell the kind of an archive from its first bytes
+const detectArchiveKind = async ({
+  path,
+  blob,
+}: ExtractedFile): Promise<ArchiveKind | null> => {
+  const head = new Uint8Array(
+    await blob.slice(0, SIGNATURE_READ_LIMIT).arrayBuffer()
+  );
+  const extension = getExtension(path).toLowerCase();
+  const kind = ARCHIVE_KINDS[sniffFileSignature(head)?.mime || ""];
+  if (kind) return kind;
+  // ZIP archives named as such, even when they look like Office documents
+  // or hold nothing at all
+  if (extension === "zip" && head[0] === 0x50 && head[1] === 0x4b) {
+    return "zip";
+  }
+  // Tar archives from before ustar only have the header checksum to go by
+  if (extension === "tar" && isTarHeader(head)) return "tar";
+  return null;
+};
+
+// Check the flags of the ZIP entries for encryption, using the central
+// directory or else the first entry
+const isEncryptedZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end of central directory record is followed by a comment of up to
+  // 64 KB
+  const lastStart = Math.max(bytes.length - 22 - 0xffff, 0);
+  for (let end = bytes.length - 22; end >= lastStart; end--) {
+    if (view.getUint32(end, true) !== 0x06054b50) continue;
+    let offset = view.getUint32(end + 16, true);
+    while (
+      offset + 46 <= bytes.length &&
+      view.getUint32(offset, true) === 0x02014b50
+    ) {
+      if (view.getUint16(offset + 8, true) & 1) return true;
+      offset +=
+        46 +
+        view.getUint16(offset + 28, true) +
+        view.getUint16(offset + 30, true) +
+        view.getUint16(offset + 32, true);
+    }
+    // ZIP64 archives keep their central directory elsewhere
+    if (offset !== 0xffffffff) return false;
+    break;
+  }
+  return (
+    bytes.length >= 8 &&
+    view.getUint32(0, true) === 0x04034b50 &&
+    (view.getUint16(6, true) & 1) === 1
+  );
+};
+
+interface ExtractContext {
+  maxDepth: number;
+  problems: ArchiveProblem[];
+  extracted: number;
+  total: number;
+  onProgress?: (extracted: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+const countFile = (context: ExtractContext, found: boolean) => {
+  if (found) context.total++;
+  context.extracted++;
+  context.onProgress?.(context.extracted, context.total);
+};
+
+const readZip = async (
+  { blob }: ExtractedFile,
+  onFile: (file: ExtractedFile) => void,
+  context: ExtractContext
+) => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  if (isEncryptedZip(bytes)) {
+    throw new Error("is password-protected, so its files can't be read");
+  }
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`isn't a valid ZIP archive (${message})`);
+  }
+  // Skip directories
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  context.total += entries.length;
+  for (const entry of entries) {
+    throwIfCancelled(context.signal);
+    onFile({
+      path: entry.name,
+      blob: new Blob([await entry.async("uint8array")]),
+      lastModified: entry.date.getTime(),
+    });
+    countFile(context, false);
+  }
+};
+
+const readTar = async (
+  archive: ExtractedFile,
+  onFile: (file: ExtractedFile) => void,
+  context: ExtractContext
+) => {
+  const reader = createTarReader((file) => {
+    onFile(file);
+    countFile(context, true);
+  });
+  await readChunks(toArchiveSource(archive), reader.write, context.signal);
+  reader.finish();
+};
+
+// A gzip file holds either a tar archive or a single file, which is told
+// apart from the first block of the decompressed data
+const readGzip = async (
+  archive: ExtractedFile,
+  onFile: (file: ExtractedFile) => void,
+  context: ExtractContext
+): Promise<{ singleFile: boolean }> => {
+  const namedAsTar = /\.(tar\.gz|tgz)$/i.test(archive.path);
+  let tarReader: TarReader | null = null;
+  let decided = false;
+  // Decompressed data until it's known what it is, then the single file
+  let parts: Uint8Array[] = [];
+  let size = 0;
+
+  const startTar = async () => {
+    tarReader = createTarReader((file) => {
+      onFile(file);
+      countFile(context, true);
+    });
+    for (const part of parts) {
+      await tarReader.write(part);
+    }
+    parts = [];
+  };
+
+  const inflater = createInflater({
+    write: async (chunk) => {
+      if (tarReader) {
+        await tarReader.write(chunk);
+        return;
+      }
+      parts.push(chunk);
+      size += chunk.length;
+      if (!decided && size >= TAR_HEADER_SIZE) {
+        decided = true;
+        const head = new Uint8Array(
+          await new Blob(parts).slice(0, TAR_HEADER_SIZE).arrayBuffer()
+        );
+        if (namedAsTar || isTarHeader(head)) await startTar();
+      }
+    },
+  });
+  await readChunks(toArchiveSource(archive), inflater.write, context.signal);
+  await inflater.finish();
+  // Too little data to hold a tar header
+  if (!decided && namedAsTar) await startTar();
+
+  // Set by the callbacks above, which the compiler doesn't follow
+  const finishedReader = tarReader as TarReader | null;
+  if (finishedReader) {
+    finishedReader.finish();
+    return { singleFile: false };
+  }
+  const { name, time } = inflater.getHeader() || { name: "", time: 0 };
+  const archiveName = archive.path.split("/").pop() || archive.path;
+  onFile({
+    // The original name is stored in the header by some tools only
+    path: name || getNameWithoutExtension(archiveName),
+    blob: new Blob(parts),
+    lastModified: time ? time * 1000 : archive.lastModified,
+  });
+  countFile(context, true);
+  return { singleFile: true };
+};
+
+// Read the files of an archive, with paths inside the folder it's
+// unpacked to
+const openArchive = async (
+  archive: ExtractedFile,
+  isNested: boolean,
+  context: ExtractContext
+): Promise<ExtractedFile[]> => {
+  const kind = await detectArchiveKind(archive);
+  if (!kind) {
+    throw new Error("isn't a ZIP, TAR or gzip archive");
+  }
+  const unsupported = UNSUPPORTED_KINDS[kind];
+  if (unsupported) {
+    throw new Error(
+      `is a ${unsupported} archive, which can't be opened here. Extract it with another tool first.`
+    );
+  }
+
+  const files: ExtractedFile[] = [];
+  const onFile = (file: ExtractedFile) => {
+    files.push(file);
+  };
+  let singleFile = false;
+  if (kind === "zip") {
+    await readZip(archive, onFile, context);
+  } else if (kind === "tar") {
+    await readTar(archive, onFile, context);
+  } else {
+    ({ singleFile } = await readGzip(archive, onFile, context));
+  }
+  if (!isNested) return files;
+
+  // Nested archives are unpacked to a folder named after them, except a
+  // gzipped single file which takes the place of the archive
+  const folder = singleFile
+    ? archive.path.slice(0, archive.path.lastIndexOf("/") + 1)
+    : `${getNameWithoutExtension(archive.path)}/`;
+  return files.map((file) => ({ ...file, path: `${folder}${file.path}` }));
+};
+
+// Replace the nested archives among extracted files with their contents,
+// down to the depth limit
+const openNestedArchives = async (
+  files: ExtractedFile[],
+  depth: number,
+  context: ExtractContext
+): Promise<ExtractedFile[]> => {
+  const results: ExtractedFile[] = [];
+  for (const file of files) {
+    if (depth > context.maxDepth || !isArchiveFileName(file.path)) {
+      results.push(file);
+      continue;
+    }
+    try {
+      const contents = await openArchive(file, true, context);
+      results.push(...(await openNestedArchives(contents, depth + 1, context)));
+    } catch (err) {
+      if (context.signal?.aborted) throw err;
+      context.problems.push({
+        path: file.path,
+        message: err instanceof Error ? err.message : String(err),
+      });
+      results.push(file);
+    }
+  }
+  return results;
+};
+
+// Read every file out of a ZIP, TAR, TAR.GZ or GZ archive, opening the
+// archives inside it as well. Archives that can't be read, such as RAR or
+// password-protected ZIP archives, are reported as problems.
+export const extractArchive = async (
+  archive: ExtractedFile,
+  { maxDepth = DEFAULT_ARCHIVE_DEPTH, onProgress, signal }: ExtractOptions = {}
+): Promise<ExtractionResult> => {
+  const context: ExtractContext = {
+    maxDepth,
+    problems: [],
+    extracted: 0,
+    total: 0,
+    onProgress,
+    signal,
+  };
+  let files: ExtractedFile[];
+  try {
+    files = await openArchive(archive, false, context);
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    return {
+      opened: false,
+      files: [],
+      problems: [
+        {
+          path: archive.path,
+          message: err instanceof Error ? err.message : String(err),
+        },
+      ],
+    };
+  }
+  return {
+    opened: true,
+    files: await openNestedArchives(files, 1, context),
+    problems: context.problems,
+  };
+};
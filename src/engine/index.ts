@@ -0,0 +1,168 @@
+// Framework-free rename engine shared by the web UI and the ultra-rename CLI
+export type {
+  CollisionPolicy,
+  CollisionResolution,
+  NameRequest,
+} from "../utils/collisions";
+export {
+  addNameSuffix,
+  COLLISION_POLICY_LABELS,
+  resolveCollisions,
+} from "../utils/collisions";
+export { parseCsv, toCsvValue } from "../utils/csv";
+export {
+  getExtension,
+  getFolderPath,
+  getNameWithoutExtension,
+  joinPath,
+  normalizeRelativePath,
+  sanitizeFileName,
+} from "../utils/fileNames";
+export type { SortDirection, SortMode } from "../utils/fileSorting";
+export { SORT_MODE_LABELS, sortFiles } from "../utils/fileSorting";
+export type { FileSignature } from "../utils/fileSignatures";
+export { sniffFileSignature } from "../utils/fileSignatures";
+export type { FileCategory } from "../utils/fileTypes";
+export { getFileCategory, getMimeType } from "../utils/fileTypes";
+export type { MatchMode } from "../utils/findReplace";
+export { MATCH_MODE_LABELS } from "../utils/findReplace";
+export type { NameCase, NameCaseTarget } from "../utils/nameCase";
+export {
+  applyNameCase,
+  NAME_CASE_LABELS,
+  NAME_CASE_TARGET_LABELS,
+  transliterate,
+} from "../utils/nameCase";
+export type {
+  NameIssue,
+  NameIssueKind,
+  TargetPlatform,
+} from "../utils/nameValidation";
+export {
+  checkFileName,
+  fixFileName,
+  TARGET_PLATFORM_LABELS,
+  validateNames,
+} from "../utils/nameValidation";
+export type { TemplateFile } from "../utils/namingTemplate";
+export { DEFAULT_TEMPLATE, TEMPLATE_FIELDS } from "../utils/namingTemplate";
+export type {
+  NumberingRestart,
+  NumberPosition,
+  NumberStyle,
+  SequenceFormat,
+} from "../utils/numbering";
+export {
+  formatSequence,
+  NUMBER_POSITION_LABELS,
+  NUMBER_STYLE_LABELS,
+  NUMBERING_RESTART_LABELS,
+  toLetters,
+} from "../utils/numbering";
+export type { ArchiveFormat } from "./archive";
+export {
+  ARCHIVE_FORMAT_LABELS,
+  ARCHIVE_NAME_FIELDS,
+  COMPRESSION_LEVEL_LABELS,
+  DEFAULT_ARCHIVE_NAME,
+  formatArchiveName,
+  getArchiveFormat,
+  isCompressedFormat,
+  writeArchive,
+} from "./archive";
+export type {
+  ArchiveEntry,
+  ArchiveSink,
+  ArchiveSource,
+  ArchiveWriteOptions,
+  CompressionLevel,
+  ExtractedFile,
+} from "./archiveStream";
+export { DEFAULT_COMPRESSION_LEVEL } from "./archiveStream";
+export type {
+  ArchiveProblem,
+  ExtractionResult,
+  ExtractOptions,
+} from "./extract";
+export {
+  DEFAULT_ARCHIVE_DEPTH,
+  extractArchive,
+  isArchiveFileName,
+} from "./extract";
+export type { ManifestFormat, ManifestOptions, RenameRecord } from "./manifest";
+export {
+  createManifestEntries,
+  createRenameScript,
+  formatManifestCsv,
+  formatManifestJson,
+  MANIFEST_FORMAT_LABELS,
+} from "./manifest";
+export type {
+  CompiledMapping,
+  CompiledRow,
+  MappingMatch,
+  MappingRow,
+  NameMapping,
+} from "./mapping";
+export {
+  compileNameMapping,
+  keepExtension,
+  matchNameMapping,
+  parseNameMapping,
+} from "./mapping";
+export type { FileMetadata } from "./metadata";
+export { readFileMetadata } from "./metadata";
+export type {
+  CaseRule,
+  InsertRule,
+  NumberRule,
+  RemoveRule,
+  RenamePipeline,
+  RenameRule,
+  RenameRuleKind,
+  ReplaceRule,
+  RulePosition,
+  TrimRule,
+} from "./pipeline";
+export {
+  compileRenamePipeline,
+  createRenameRule,
+  normalizeRenameRules,
+  RENAME_RULE_LABELS,
+  RULE_POSITION_LABELS,
+  runRenamePipeline,
+} from "./pipeline";
+export type { RenamePreset } from "./presets";
+export {
+  mergePresets,
+  normalizeSettings,
+  parsePresets,
+  PRESETS_STORAGE_KEY,
+  serializePresets,
+} from "./presets";
+export type {
+  EngineFile,
+  NamingRules,
+  OutputNames,
+  RenamePlan,
+} from "./renamePlan";
+export {
+  compileNamingRules,
+  FILE_TYPE_CATEGORIES,
+  filterFilesByType,
+  fixExtension,
+  generateFileName,
+  getFolderGroups,
+  getOutputFolder,
+  getRuleSteps,
+  getSequenceIndexes,
+  hasExtensionMismatch,
+  planRenames,
+  resolveNames,
+} from "./renamePlan";
+export type { RenameMode, RenameSettings } from "./settings";
+export { DEFAULT_RENAME_SETTINGS } from "./settings";
+export { createSha256 } from "./sha256";
+export type { TarOptions } from "./tar";
+export { createTarReader, isTarHeader, writeTar } from "./tar";
+export { updateCrc32, writeZip } from "./zip";
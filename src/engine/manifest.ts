@@ -0,0 +1,259 @@
+import { addNameSuffix } from "../utils/collisions";
+import { toCsvValue } from "../utils/csv";
+import { ArchiveEntry } from "./archiveStream";
+
+// A record of what a downloaded file used to be called, so the rename can
+// be checked, repeated on the originals or undone
+export interface RenameRecord {
+  originalName: string;
+  // Where the file came from, relative to the dropped or opened folder
+  originalPath: string;
+  newName: string;
+  // Where the file is in the archive
+  newPath: string;
+  size: number;
+  type: string;
+  // Hash of the contents as hex, filled in as the archive is written
+  sha256?: string;
+}
+
+export type ManifestFormat = "none" | "csv" | "json" | "both";
+
+export const MANIFEST_FORMAT_LABELS: { [format in ManifestFormat]: string } = {
+  none: "No manifest",
+  csv: "CSV",
+  json: "JSON",
+  both: "CSV and JSON",
+};
+
+export interface ManifestOptions {
+  format: ManifestFormat;
+  // Add shell and PowerShell scripts that rename the originals the same
+  // way, and ones that put the old names back
+  scripts: boolean;
+}
+
+type ScriptShell = "sh" | "ps1";
+
+const MANIFEST_NAME = "rename-manifest";
+
+const CSV_COLUMNS: [string, keyof RenameRecord][] = [
+  ["original_name", "originalName"],
+  ["original_path", "originalPath"],
+  ["new_name", "newName"],
+  ["new_path", "newPath"],
+  ["size", "size"],
+  ["type", "type"],
+  ["sha256", "sha256"],
+];
+
+export const formatManifestCsv = (records: RenameRecord[]): string =>
+  [
+    CSV_COLUMNS.map(([column]) => column),
+    ...records.map((record) =>
+      CSV_COLUMNS.map(([, key]) => toCsvValue(record[key]))
+    ),
+  ]
+    .map((row) => `${row.join(",")}\r\n`)
+    .join("");
+
+export const formatManifestJson = (
+  records: RenameRecord[],
+  date = new Date()
+): string =>
+  `${JSON.stringify(
+    { created: date.toISOString(), files: records },
+    null,
+    2
+  )}\n`;
+
+// Single quotes keep every character as it is in both shells. PowerShell
+// also ends strings at curly single quotes, so those are doubled too.
+const quoteForShell = (shell: ScriptShell, value: string) =>
+  shell === "sh"
+    ? `'${value.replace(/'/g, "'\\''")}'`
+    : `'${value.replace(/['\u2018-\u201b]/g, "$&$&")}'`;
+
+const SH_HELPERS = `set -u
+
+# Every file is moved to a temporary name first, so names can be swapped
+stage() {
+  if [ -e "$1" ]; then
+    mv -- "$1" "$2"
+  else
+    echo "Not found: $1" >&2
+  fi
+}
+
+finish() {
+  [ -e "$1" ] || return 0
+  if [ -e "$2" ]; then
+    echo "Already exists, left as $3: $2" >&2
+    mv -- "$1" "$3"
+  else
+    mkdir -p -- "$(dirname -- "$2")" && mv -- "$1" "$2"
+  fi
+}
+`;
+
+const PS1_HELPERS = `# Every file is moved to a temporary name first, so names can be swapped
+$index = 0
+foreach ($rename in $renames) {
+  $index++
+  $rename.Temp = "$($rename.From).rename-$index.tmp"
+  if (Test-Path -LiteralPath $rename.From) {
+    Move-Item -LiteralPath $rename.From -Destination $rename.Temp
+  } else {
+    Write-Warning "Not found: $($rename.From)"
+    $rename.Temp = $null
+  }
+}
+
+foreach ($rename in $renames) {
+  if (-not $rename.Temp) { continue }
+  if (Test-Path -LiteralPath $rename.To) {
+    Write-Warning "Already exists, left as $($rename.From): $($rename.To)"
+    Move-Item -LiteralPath $rename.Temp -Destination $rename.From
+    continue
+  }
+  $folder = Split-Path -Path $rename.To -Parent
+  if ($folder -and -not (Test-Path -LiteralPath $folder)) {
+    New-Item -ItemType Directory -Path $folder | Out-Null
+  }
+  Move-Item -LiteralPath $rename.Temp -Destination $rename.To
+}
+`;
+
+// Make a script that renames the original files on disk the same way as in
+// the archive, or puts the old names back. Files that are missing or whose
+// new name is taken are left as they are.
+export const createRenameScript = (
+  records: RenameRecord[],
+  shell: ScriptShell,
+  direction: "rename" | "revert",
+  revertScriptName = `revert.${shell}`
+): string => {
+  const moves = records
+    .filter(({ originalPath, newPath }) => originalPath !== newPath)
+    .map(({ originalPath, newPath }) =>
+      direction === "rename"
+        ? { from: originalPath, to: newPath }
+        : { from: newPath, to: originalPath }
+    );
+  const summary =
+    direction === "rename"
+      ? `Renames ${moves.length} files to their new names. Undo with ${revertScriptName}.`
+      : `Puts the old names of ${moves.length} renamed files back.`;
+  const quote = (value: string) => quoteForShell(shell, value);
+
+  if (shell === "sh") {
+    return [
+      "#!/bin/sh",
+      `# ${summary}`,
+      "# Run it in the folder the files were added from.",
+      "",
+      SH_HELPERS,
+      ...moves.map(
+        ({ from }, index) =>
+          `stage ${quote(from)} ${quote(`${from}.rename-${index + 1}.tmp`)}`
+      ),
+      "",
+      ...moves.map(
+        ({ from, to }, index) =>
+          `finish ${quote(`${from}.rename-${index + 1}.tmp`)} ${quote(
+            to
+          )} ${quote(from)}`
+      ),
+      "",
+    ].join("\n");
+  }
+
+  // Windows PowerShell reads scripts without a byte order mark as ANSI
+  return [
+    `\ufeff# ${summary}`,
+    "# Run it in the folder the files were added from.",
+    "$renames = @(",
+    ...moves.map(
+      ({ from, to }) => `  @{ From = ${quote(from)}; To = ${quote(to)} }`
+    ),
+    ")",
+    "",
+    PS1_HELPERS,
+  ].join("\n");
+};
+
+// Build a file for the archive from text
+const createTextEntry = (
+  path: string,
+  text: string,
+  lastModified: number
+): ArchiveEntry => {
+  const blob = new Blob([text]);
+  return {
+    path,
+    file: {
+      name: path,
+      size: blob.size,
+      lastModified,
+      slice: (start?: number, end?: number) => blob.slice(start, end),
+    },
+  };
+};
+
+// Make the manifest and scripts to add at the top of the archive, named
+// so they don't replace any renamed file
+export const createManifestEntries = (
+  records: RenameRecord[],
+  { format, scripts }: ManifestOptions,
+  date = new Date()
+): ArchiveEntry[] => {
+  const taken = new Set(records.map(({ newPath }) => newPath.toLowerCase()));
+  const getFreeName = (name: string) => {
+    let freeName = name;
+    for (let counter = 1; taken.has(freeName.toLowerCase()); counter++) {
+      freeName = addNameSuffix(name, counter);
+    }
+    taken.add(freeName.toLowerCase());
+    return freeName;
+  };
+  const time = date.getTime();
+  const entries: ArchiveEntry[] = [];
+
+  if (format === "csv" || format === "both") {
+    entries.push(
+      createTextEntry(
+        getFreeName(`${MANIFEST_NAME}.csv`),
+        formatManifestCsv(records),
+        time
+      )
+    );
+  }
+  if (format === "json" || format === "both") {
+    entries.push(
+      createTextEntry(
+        getFreeName(`${MANIFEST_NAME}.json`),
+        formatManifestJson(records, date),
+        time
+      )
+    );
+  }
+  if (scripts) {
+    (["sh", "ps1"] as ScriptShell[]).forEach((shell) => {
+      const renameName = getFreeName(`rename.${shell}`);
+      const revertName = getFreeName(`revert.${shell}`);
+      entries.push(
+        createTextEntry(
+          renameName,
+          createRenameScript(records, shell, "rename", revertName),
+          time
+        ),
+        createTextEntry(
+          revertName,
+          createRenameScript(records, shell, "revert"),
+          time
+        )
+      );
+    });
+  }
+  return entries;
+};
@@ -0,0 +1,105 @@
+import {
+  compileNameMapping,
+  keepExtension,
+  matchNameMapping,
+  parseNameMapping,
+} from "./mapping";
+import { EngineFile } from "./renamePlan";
+
+const createFile = (relativePath: string): EngineFile => ({
+  id: relativePath,
+  name: relativePath.slice(relativePath.lastIndexOf("/") + 1),
+  size: 1,
+  type: "",
+  lastModified: 0,
+  relativePath,
+});
+
+describe("parseNameMapping", () => {
+  test("finds the columns by their header names", () => {
+    const mapping = parseNameMapping(
+      "\ufeffOrder;New Name;Old_Name\n2;second;b.jpg\n1;first;a.jpg\n",
+      "names.csv"
+    );
+    expect(mapping.rows).toEqual([
+      { from: "b.jpg", to: "second", order: 2, line: 2 },
+      { from: "a.jpg", to: "first", order: 1, line: 3 },
+    ]);
+  });
+
+  test("takes the columns in order without a header", () => {
+    const mapping = parseNameMapping("a.jpg,first\nb.jpg,\n", "names.csv");
+    expect(mapping.rows).toEqual([
+      { from: "a.jpg", to: "first", order: undefined, line: 1 },
+    ]);
+    expect(mapping.errors).toEqual(["Row 2 is missing the new name"]);
+  });
+
+  test("reads JSON lists, objects and rename manifests", () => {
+    const expected = [
+      { from: "a.jpg", to: "first", order: undefined, line: 1 },
+    ];
+    expect(
+      parseNameMapping('[{"from":"a.jpg","to":"first"}]', "m.json").rows
+    ).toEqual(expected);
+    expect(parseNameMapping('{"a.jpg":"first"}', "m.json").rows).toEqual([
+      { from: "a.jpg", to: "first", line: 1 },
+    ]);
+    expect(
+      parseNameMapping(
+        '{"files":[{"originalPath":"a.jpg","newName":"first"}]}',
+        "rename-manifest.json"
+      ).rows
+    ).toEqual(expected);
+  });
+
+  test("rejects files without any names", () => {
+    expect(() => parseNameMapping("", "names.csv")).toThrow(
+      "The mapping file is empty"
+    );
+    expect(() => parseNameMapping("{", "names.json")).toThrow(
+      "The mapping file is not valid JSON"
+    );
+  });
+});
+
+describe("matchNameMapping", () => {
+  const files = [
+    createFile("shoot/IMG_1.jpg"),
+    createFile("shoot/IMG_2.jpg"),
+    createFile("shoot/scans/page.pdf"),
+    createFile("shoot/notes.txt"),
+  ];
+  const mapping = compileNameMapping(
+    parseNameMapping(
+      [
+        "from,to,order",
+        "img_*.jpg,photo_{n}",
+        "IMG_2.jpg,cover,1",
+        "scans/page.pdf,scan",
+        "missing.jpg,gone",
+      ].join("\n"),
+      "names.csv"
+    )
+  );
+
+  test("prefers exact names and paths over patterns, ignoring case", () => {
+    const match = matchNameMapping(files, mapping);
+    expect(match.matchedFiles.map(({ id }) => id)).toEqual([
+      "shoot/IMG_2.jpg",
+      "shoot/IMG_1.jpg",
+      "shoot/scans/page.pdf",
+    ]);
+    expect(match.rows.get("shoot/IMG_2.jpg")?.to).toBe("cover");
+    expect(match.rows.get("shoot/IMG_1.jpg")?.to).toBe("photo_{n}");
+    expect(match.unmatchedFiles.map(({ id }) => id)).toEqual([
+      "shoot/notes.txt",
+    ]);
+    expect(match.unusedRows.map(({ from }) => from)).toEqual(["missing.jpg"]);
+  });
+
+  test("keeps the old extension when the new name has none", () => {
+    expect(keepExtension("cover", files[0])).toBe("cover.jpg");
+    expect(keepExtension("cover.png", files[0])).toBe("cover.png");
+  });
+});
@@ -0,0 +1,340 @@
+import { parseCsv } from "../utils/csv";
+import { getExtension, normalizeRelativePath } from "../utils/fileNames";
+import { ParsedTemplate, parseTemplate } from "../utils/namingTemplate";
+import { EngineFile } from "./renamePlan";
+
+// A list of old names and the new names to give them, such as a
+// spreadsheet from a client
+
+export interface MappingRow {
+  // Old name, relative path or a pattern like "IMG_*.jpg"
+  from: string;
+  // New name, which can use template fields like {n} and {ext}
+  to: string;
+  // Position in the numbering, from an order column
+  order?: number;
+  // Row in the mapping file, counting the header
+  line: number;
+}
+
+export interface NameMapping {
+  // Name of the file the mapping was imported from
+  source: string;
+  rows: MappingRow[];
+  // Rows that were left out and why
+  errors: string[];
+}
+
+export interface CompiledRow extends MappingRow {
+  template: ParsedTemplate;
+  // Set for patterns, which are matched after exact names
+  pattern: RegExp | null;
+  // Paths are matched against the relative path rather than the name
+  matchesPath: boolean;
+}
+
+// A mapping ready to be matched against files
+export interface CompiledMapping {
+  rows: CompiledRow[];
+  errors: string[];
+}
+
+// How a mapping lines up with the files it was matched against
+export interface MappingMatch<T extends EngineFile> {
+  // Matched files in numbering order, by the order column and then by row
+  matchedFiles: T[];
+  // Row of each matched file, by file id
+  rows: Map<string, CompiledRow>;
+  unmatchedFiles: T[];
+  // Rows that matched none of the files
+  unusedRows: MappingRow[];
+}
+
+// Column names accepted for each value, after lowercasing and dropping
+// spaces, dashes and underscores. Earlier names win when a file has more
+// than one, so paths are preferred over bare names.
+const COLUMN_NAMES = {
+  from: [
+    "from",
+    "originalpath",
+    "oldpath",
+    "path",
+    "originalname",
+    "oldname",
+    "original",
+    "old",
+    "source",
+    "filename",
+    "file",
+    "name",
+    "pattern",
+  ],
+  to: ["to", "newname", "new", "newfilename", "renameto", "rename", "target"],
+  order: ["order", "position", "sequence", "index", "row", "#"],
+};
+
+type MappingColumn = keyof typeof COLUMN_NAMES;
+
+const normalizeColumnName = (name: string) =>
+  name.toLowerCase().replace(/[\s_-]/g, "");
+
+// Find the index of each value's column in a header row, or null when the
+// row doesn't name the old and new name columns
+const findColumns = (header: string[]) => {
+  const names = header.map(normalizeColumnName);
+  const find = (column: MappingColumn) => {
+    for (const candidate of COLUMN_NAMES[column]) {
+      const index = names.indexOf(candidate);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+  const columns = { from: find("from"), to: find("to"), order: find("order") };
+  return columns.from !== -1 && columns.to !== -1 ? columns : null;
+};
+
+// Names in JSON can also be numbers
+const toName = (value: unknown) =>
+  typeof value === "string" || typeof value === "number"
+    ? String(value).trim()
+    : "";
+
+const parseOrder = (value: unknown): number | undefined => {
+  if (value === undefined || value === null || value === "") return undefined;
+  const order = Number(value);
+  return Number.isFinite(order) ? order : undefined;
+};
+
+// Turn the raw rows of a file into mapping rows, collecting errors for rows
+// that can't be used
+const toMappingRows = (
+  rawRows: { from: unknown; to: unknown; order?: unknown; line: number }[],
+  errors: string[]
+): MappingRow[] => {
+  const rows: MappingRow[] = [];
+  rawRows.forEach(({ from, to, order, line }) => {
+    const fromText = toName(from);
+    const toText = toName(to);
+    if (!fromText || !toText) {
+      errors.push(
+        `Row ${line} is missing the ${fromText ? "new" : "old"} name`
+      );
+      return;
+    }
+    if (
+      order !== undefined &&
+      order !== "" &&
+      parseOrder(order) === undefined
+    ) {
+      errors.push(`Row ${line} has an order that isn't a number`);
+    }
+    rows.push({ from: fromText, to: toText, order: parseOrder(order), line });
+  });
+  return rows;
+};
+
+const parseCsvMapping = (text: string, errors: string[]) => {
+  const table = parseCsv(text);
+  if (table.length === 0) {
+    throw new Error("The mapping file is empty");
+  }
+  // Without a header, the first columns are the old name, the new name and
+  // the order
+  const columns = findColumns(table[0]);
+  const { from, to, order } = columns || { from: 0, to: 1, order: 2 };
+  const body = columns ? table.slice(1) : table;
+  if (!columns && table[0].length < 2) {
+    throw new Error(
+      "The mapping file needs a column of old names and one of new names"
+    );
+  }
+  return toMappingRows(
+    body.map((row, index) => ({
+      from: row[from],
+      to: row[to],
+      order: order === -1 ? undefined : row[order],
+      line: index + (columns ? 2 : 1),
+    })),
+    errors
+  );
+};
+
+const parseJsonMapping = (text: string, errors: string[]) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The mapping file is not valid JSON");
+  }
+  // A rename manifest lists its rows under "files"
+  const list =
+    data && !Array.isArray(data) && typeof data === "object"
+      ? (data as { [key: string]: unknown }).files ??
+        (data as { [key: string]: unknown }).mapping
+      : data;
+
+  if (Array.isArray(list)) {
+    return toMappingRows(
+      list.map((item, index) => {
+        const line = index + 1;
+        if (Array.isArray(item)) {
+          return { from: item[0], to: item[1], order: item[2], line };
+        }
+        const record =
+          item && typeof item === "object"
+            ? (item as { [key: string]: unknown })
+            : {};
+        const keys = Object.keys(record);
+        const columns = findColumns(keys);
+        if (!columns) return { from: undefined, to: undefined, line };
+        return {
+          from: record[keys[columns.from]],
+          to: record[keys[columns.to]],
+          order: columns.order === -1 ? undefined : record[keys[columns.order]],
+          line,
+        };
+      }),
+      errors
+    );
+  }
+  // A plain object of old names and new names
+  if (data && typeof data === "object") {
+    return toMappingRows(
+      Object.entries(data as { [key: string]: unknown }).map(
+        ([from, to], index) => ({ from, to, line: index + 1 })
+      ),
+      errors
+    );
+  }
+  throw new Error("The mapping file does not contain a list of names");
+};
+
+// Read a mapping from CSV or JSON. CSV files can have a header naming the
+// old name, new name and order columns; JSON can be a list of rows, a rename
+// manifest or an object of old names and new names.
+export const parseNameMapping = (text: string, source: string): NameMapping => {
+  const errors: string[] = [];
+  // Spreadsheets often save a byte order mark first
+  const input = text.replace(/^\ufeff/, "");
+  const isJson =
+    getExtension(source).toLowerCase() === "json" || /^\s*[[{]/.test(input);
+  const rows = isJson
+    ? parseJsonMapping(input, errors)
+    : parseCsvMapping(input, errors);
+  if (rows.length === 0) {
+    throw new Error(errors[0] || "The mapping file does not contain any names");
+  }
+  return { source, rows, errors };
+};
+
+// Turn a pattern with * and ? into a regular expression. ** also matches
+// across folders.
+const globToRegExp = (pattern: string) =>
+  new RegExp(
+    `^${pattern
+      .split(/(\*\*|\*|\?)/)
+      .map((part) => {
+        if (part === "**") return ".*";
+        if (part === "*") return "[^/]*";
+        if (part === "?") return "[^/]";
+        return part.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+      })
+      .join("")}$`,
+    "i"
+  );
+
+// Prepare the new name templates and patterns of a mapping. Rows whose new
+// name isn't a valid template are left out.
+export const compileNameMapping = (mapping: NameMapping): CompiledMapping => {
+  const errors = [...mapping.errors];
+  const rows: CompiledRow[] = [];
+  mapping.rows.forEach((row) => {
+    const template = parseTemplate(row.to);
+    if (template.errors.length > 0) {
+      errors.push(`Row ${row.line}: ${template.errors[0]}`);
+      return;
+    }
+    const from = normalizeRelativePath(row.from) || row.from;
+    rows.push({
+      ...row,
+      from,
+      template,
+      pattern: /[*?]/.test(from) ? globToRegExp(from) : null,
+      matchesPath: from.includes("/"),
+    });
+  });
+  return { rows, errors };
+};
+
+// A path and the shorter paths it ends with, down to the file name, so rows
+// don't need to start at the dropped folder
+const getPathEndings = (path: string) =>
+  path.split("/").map((_, index, parts) => parts.slice(index).join("/"));
+
+// Match every file to a mapping row. Exact names win over patterns, longer
+// paths over shorter ones and earlier rows over later ones. Names are
+// compared ignoring case.
+export const matchNameMapping = <T extends EngineFile>(
+  files: T[],
+  mapping: CompiledMapping
+): MappingMatch<T> => {
+  const exactRows = new Map<string, CompiledRow>();
+  mapping.rows.forEach((row) => {
+    const key = row.from.toLowerCase();
+    if (!row.pattern && !exactRows.has(key)) exactRows.set(key, row);
+  });
+  const patternRows = mapping.rows.filter((row) => row.pattern);
+
+  const rows = new Map<string, CompiledRow>();
+  const usedRows = new Set<CompiledRow>();
+  const unmatchedFiles: T[] = [];
+  files.forEach((file) => {
+    const endings = getPathEndings(file.relativePath || file.name);
+    const exactEnding = endings.find((ending) =>
+      exactRows.has(ending.toLowerCase())
+    );
+    const row = exactEnding
+      ? exactRows.get(exactEnding.toLowerCase())
+      : patternRows.find(({ pattern, matchesPath }) =>
+          matchesPath
+            ? endings.some((ending) => (pattern as RegExp).test(ending))
+            : (pattern as RegExp).test(file.name)
+        );
+    if (row) {
+      rows.set(file.id, row);
+      usedRows.add(row);
+    } else {
+      unmatchedFiles.push(file);
+    }
+  });
+
+  // Rows without an order come after those with one
+  const getOrder = (row: CompiledRow) => row.order ?? Infinity;
+  const matchedFiles = files
+    .filter((file) => rows.has(file.id))
+    .map((file, position) => ({
+      file,
+      position,
+      row: rows.get(file.id) as CompiledRow,
+    }))
+    .sort(
+      (a, b) =>
+        getOrder(a.row) - getOrder(b.row) ||
+        a.row.line - b.row.line ||
+        a.position - b.position
+    )
+    .map(({ file }) => file);
+
+  return {
+    matchedFiles,
+    rows,
+    unmatchedFiles,
+    unusedRows: mapping.rows.filter((row) => !usedRows.has(row)),
+  };
+};
+
+// Keep the old extension when a mapped name doesn't give one
+export const keepExtension = (name: string, file: EngineFile): string => {
+  const extension = getExtension(file.name);
+  return extension && !getExtension(name) ? `${name}.${extension}` : name;
+};
@@ -0,0 +1,60 @@
+import { AudioTags, readAudioTags } from "../utils/audioTags";
+import { ExifData, readExif, supportsExif } from "../utils/exif";
+import { getExtension } from "../utils/fileNames";
+import {
+  extensionMatchesSignature,
+  FileSignature,
+  readFileSignature,
+} from "../utils/fileSignatures";
+
+export interface FileMetadata {
+  // MIME type detected from the content when the name gets it wrong
+  type: string;
+  signature: FileSignature | null;
+  exif?: ExifData | null;
+  audioTags?: AudioTags | null;
+}
+
+interface MetadataSource {
+  name: string;
+  type: string;
+  size: number;
+  slice: (start?: number, end?: number) => Blob;
+}
+
+// Detect the real type of a file and read the EXIF data or audio tags that
+// naming templates can use. onRead is told the size of every part read.
+export const readFileMetadata = async (
+  source: MetadataSource,
+  onRead?: (bytes: number) => void
+): Promise<FileMetadata> => {
+  const file: MetadataSource = onRead
+    ? {
+        name: source.name,
+        type: source.type,
+        size: source.size,
+        slice: (start, end) => {
+          const blob = source.slice(start, end);
+          onRead(blob.size);
+          return blob;
+        },
+      }
+    : source;
+  const signature = await readFileSignature(file);
+  // Trust the content over the name when they disagree
+  const type =
+    signature &&
+    !(
+      file.type && extensionMatchesSignature(getExtension(file.name), signature)
+    )
+      ? signature.mime
+      : file.type;
+
+  if (supportsExif(type)) {
+    return { type, signature, exif: await readExif(file) };
+  }
+  if (type.startsWith("audio/")) {
+    return { type, signature, audioTags: await readAudioTags(file) };
+  }
+  return { type, signature };
+};
@@ -0,0 +1,86 @@
+import {
+  compileRenamePipeline,
+  createRenameRule,
+  normalizeRenameRules,
+  RenameRule,
+  RenameRuleKind,
+  runRenamePipeline,
+} from "./pipeline";
+
+const file = {
+  name: "  IMG_0042 holiday  photo.JPG",
+  size: 1,
+  type: "image/jpeg",
+  lastModified: Date.UTC(2026, 6, 4, 12),
+};
+
+// A rule of the given kind with some of its options changed
+const createRule = <K extends RenameRuleKind>(
+  kind: K,
+  options: Partial<Extract<RenameRule, { kind: K }>> = {}
+) => ({ ...createRenameRule(kind, kind), ...options } as RenameRule);
+
+const run = (rules: RenameRule[], sequence = 1) =>
+  runRenamePipeline(compileRenamePipeline(rules), {
+    file,
+    base: "",
+    sequence,
+  });
+
+describe("runRenamePipeline", () => {
+  test("gives the name after each step, keeping the extension", () => {
+    const rules: RenameRule[] = [
+      createRule("trim", { characters: "" }),
+      createRule("remove", { count: 9, position: "start" }),
+      createRule("replace", { search: " ", replace: "-" }),
+      createRule("insert", { text: "{modified:YYYY-MM-DD}_" }),
+      createRule("case", { nameCase: "upper" }),
+      createRule("number", { padding: 3, start: 10, step: 5 }),
+    ];
+    expect(run(rules, 2)).toEqual([
+      "IMG_0042 holiday photo.JPG",
+      "holiday photo.JPG",
+      "holiday-photo.JPG",
+      "2026-07-04_holiday-photo.JPG",
+      "2026-07-04_HOLIDAY-PHOTO.JPG",
+      "2026-07-04_HOLIDAY-PHOTO_015.JPG",
+    ]);
+  });
+
+  test("skips disabled rules and steps that would empty the name", () => {
+    const rules: RenameRule[] = [
+      createRule("remove", { count: 100 }),
+      createRule("case", { enabled: false }),
+    ];
+    expect(run(rules)).toEqual([file.name]);
+  });
+});
+
+describe("compileRenamePipeline", () => {
+  test("reports rules that can't be used", () => {
+    const { rules, errors } = compileRenamePipeline([
+      createRule("replace", { search: "(", matchMode: "regex" }),
+      createRule("insert", { text: "{nope}" }),
+      createRule("insert"),
+    ]);
+    expect(rules).toEqual([]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toMatch(/^Rule 1 \(Replace text\): /);
+    expect(errors[1]).toMatch(/^Rule 2 \(Insert text\): /);
+  });
+});
+
+describe("normalizeRenameRules", () => {
+  test("drops unknown rules and fills in bad options", () => {
+    expect(
+      normalizeRenameRules([
+        { kind: "explode" },
+        { kind: "case", id: "a", nameCase: "shouting" },
+        { kind: "number", id: "a", padding: "3", style: "lowercase" },
+      ])
+    ).toEqual([
+      createRenameRule("case", "a"),
+      { ...createRenameRule("number", "rule-3"), style: "lowercase" },
+    ]);
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  sanitizeFileName,
+  splitFileName,
+  withExtension,
+} from "../utils/fileNames";
+import {
+  applyFindReplace,
+  buildSearchPattern,
+  MATCH_MODE_LABELS,
+  MatchMode,
+} from "../utils/findReplace";
+import { applyCase, NAME_CASE_LABELS, NameCase } from "../utils/nameCase";
+import {
+  ParsedTemplate,
+  parseTemplate,
+  renderTemplateText,
+  TemplateContext,
+} from "../utils/namingTemplate";
+import {
+  formatSequence,
+  NUMBER_STYLE_LABELS,
+  NumberStyle,
+} from "../utils/numbering";
+
+// Rules that change a name one step at a time, each working on the result
+// of the one before. They change the name without its extension.
+
+export type RenameRuleKind =
+  | "insert"
+  | "remove"
+  | "replace"
+  | "trim"
+  | "case"
+  | "number";
+
+export const RENAME_RULE_LABELS: { [kind in RenameRuleKind]: string } = {
+  insert: "Insert text",
+  remove: "Remove characters",
+  replace: "Replace text",
+  trim: "Trim",
+  case: "Change case",
+  number: "Add number",
+};
+
+export type RulePosition = "start" | "end";
+
+export const RULE_POSITION_LABELS: { [position in RulePosition]: string } = {
+  start: "at the start",
+  end: "at the end",
+};
+
+interface RuleBase {
+  id: string;
+  // Disabled rules stay in the list but are skipped
+  enabled: boolean;
+}
+
+export interface InsertRule extends RuleBase {
+  kind: "insert";
+  // Can use template tokens, e.g. "{modified:YYYY-MM-DD}_"
+  text: string;
+  position: RulePosition;
+}
+
+export interface RemoveRule extends RuleBase {
+  kind: "remove";
+  count: number;
+  // Characters left in place before the removed ones, counted from the
+  // position
+  offset: number;
+  position: RulePosition;
+}
+
+export interface ReplaceRule extends RuleBase {
+  kind: "replace";
+  search: string;
+  replace: string;
+  matchMode: MatchMode;
+}
+
+export interface TrimRule extends RuleBase {
+  kind: "trim";
+  // Characters trimmed from both ends along with spaces, e.g. "_-"
+  characters: string;
+  // Turn runs of spaces inside the name into one
+  collapseSpaces: boolean;
+}
+
+export interface CaseRule extends RuleBase {
+  kind: "case";
+  nameCase: NameCase;
+}
+
+export interface NumberRule extends RuleBase {
+  kind: "number";
+  start: number;
+  step: number;
+  // Digits the number is padded to with zeros
+  padding: number;
+  style: NumberStyle;
+  separator: string;
+  position: RulePosition;
+}
+
+export type RenameRule =
+  | InsertRule
+  | RemoveRule
+  | ReplaceRule
+  | TrimRule
+  | CaseRule
+  | NumberRule;
+
+interface CompiledRule {
+  rule: RenameRule;
+  // Set for inserted text with template tokens
+  template: ParsedTemplate | null;
+  // Set for replace rules
+  pattern: RegExp | null;
+}
+
+// Enabled rules ready to run on every file
+export interface RenamePipeline {
+  rules: CompiledRule[];
+  errors: string[];
+}
+
+// Options that only take a fixed set of strings
+const ALLOWED_VALUES: { [option: string]: string[] } = {
+  position: Object.keys(RULE_POSITION_LABELS),
+  matchMode: Object.keys(MATCH_MODE_LABELS),
+  nameCase: Object.keys(NAME_CASE_LABELS),
+  style: Object.keys(NUMBER_STYLE_LABELS),
+};
+
+// Make a rule with the default options of its kind
+export const createRenameRule = (
+  kind: RenameRuleKind,
+  id: string
+): RenameRule => {
+  const base = { id, enabled: true };
+  switch (kind) {
+    case "insert":
+      return { ...base, kind, text: "", position: "start" };
+    case "remove":
+      return { ...base, kind, count: 1, offset: 0, position: "start" };
+    case "replace":
+      return { ...base, kind, search: "", replace: "", matchMode: "text" };
+    case "trim":
+      return { ...base, kind, characters: "", collapseSpaces: true };
+    case "case":
+      return { ...base, kind, nameCase: "lower" };
+    case "number":
+      return {
+        ...base,
+        kind,
+        start: 1,
+        step: 1,
+        padding: 0,
+        style: "numbers",
+        separator: "_",
+        position: "end",
+      };
+  }
+};
+
+// Read rules from untrusted JSON such as a preset file. Rules of unknown
+// kinds are dropped, and options that are missing or of the wrong type get
+// their defaults.
+export const normalizeRenameRules = (value: unknown): RenameRule[] => {
+  if (!Array.isArray(value)) return [];
+  const ids = new Set<string>();
+  const rules: RenameRule[] = [];
+  value.forEach((item, index) => {
+    const source =
+      item && typeof item === "object"
+        ? (item as { [key: string]: unknown })
+        : {};
+    const kind = source.kind as RenameRuleKind;
+    if (!Object.keys(RENAME_RULE_LABELS).includes(kind)) return;
+
+    let id = typeof source.id === "string" && source.id ? source.id : "";
+    for (let counter = index + 1; !id || ids.has(id); counter++) {
+      id = `rule-${counter}`;
+    }
+    ids.add(id);
+
+    const rule = createRenameRule(kind, id);
+    const options = rule as unknown as { [key: string]: unknown };
+    Object.keys(options).forEach((key) => {
+      if (key === "id" || key === "kind") return;
+      const candidate = source[key];
+      const allowed = ALLOWED_VALUES[key];
+      if (
+        typeof candidate === typeof options[key] &&
+        (typeof candidate !== "number" || Number.isFinite(candidate)) &&
+        (!allowed || allowed.includes(candidate as string))
+      ) {
+        options[key] = candidate;
+      }
+    });
+    rules.push(rule);
+  });
+  return rules;
+};
+
+// Prepare the enabled rules, collecting errors for templates and regular
+// expressions that can't be used. Rules with nothing to do are left out.
+export const compileRenamePipeline = (rules: RenameRule[]): RenamePipeline => {
+  const compiled: CompiledRule[] = [];
+  const errors: string[] = [];
+  rules.forEach((rule, index) => {
+    if (!rule.enabled) return;
+    const label = `Rule ${index + 1} (${RENAME_RULE_LABELS[rule.kind]})`;
+    let template: ParsedTemplate | null = null;
+    let pattern: RegExp | null = null;
+    if (rule.kind === "insert") {
+      if (!rule.text) return;
+      if (/[{}]/.test(rule.text)) {
+        template = parseTemplate(rule.text);
+        if (template.errors.length > 0) {
+          errors.push(`${label}: ${template.errors[0]}`);
+          return;
+        }
+      }
+    } else if (rule.kind === "replace") {
+      if (!rule.search) return;
+      try {
+        pattern = buildSearchPattern(rule);
+      } catch (err) {
+        errors.push(`${label}: ${err instanceof Error ? err.message : err}`);
+        return;
+      }
+    }
+    compiled.push({ rule, template, pattern });
+  });
+  return { rules: compiled, errors };
+};
+
+// Whole number of at least zero from an option typed in by hand
+const toCount = (value: number) => Math.max(Math.floor(value) || 0, 0);
+
+const applyRule = (
+  { rule, template, pattern }: CompiledRule,
+  stem: string,
+  context: TemplateContext
+): string => {
+  switch (rule.kind) {
+    case "insert": {
+      const text = sanitizeFileName(
+        template ? renderTemplateText(template, context) : rule.text
+      );
+      return rule.position === "start" ? `${text}${stem}` : `${stem}${text}`;
+    }
+    case "remove": {
+      // Counted in characters, so emoji aren't cut in half
+      const characters = Array.from(stem);
+      const count = toCount(rule.count);
+      const offset = toCount(rule.offset);
+      const start =
+        rule.position === "start"
+          ? offset
+          : Math.max(characters.length - offset - count, 0);
+      const end =
+        rule.position === "start" ? offset + count : characters.length - offset;
+      characters.splice(start, Math.max(end - start, 0));
+      return characters.join("");
+    }
+    case "replace":
+      return pattern ? applyFindReplace(stem, pattern, rule) : stem;
+    case "trim": {
+      const isTrimmed = (character: string) =>
+        /\s/.test(character) || rule.characters.includes(character);
+      let start = 0;
+      let end = stem.length;
+      while (start < end && isTrimmed(stem[start])) start++;
+      while (end > start && isTrimmed(stem[end - 1])) end--;
+      const trimmed = stem.slice(start, end);
+      return rule.collapseSpaces ? trimmed.replace(/\s+/g, " ") : trimmed;
+    }
+    case "case":
+      return applyCase(stem, rule.nameCase);
+    case "number": {
+      const number = formatSequence(context.sequence, {
+        ...rule,
+        padding: toCount(rule.padding),
+      });
+      const separator = sanitizeFileName(rule.separator);
+      return rule.position === "start"
+        ? `${number}${separator}${stem}`
+        : `${stem}${separator}${number}`;
+    }
+  }
+};
+
+// Run a file's name through the rules, giving the name after each step.
+// A step that would leave nothing of the name is skipped.
+export const runRenamePipeline = (
+  pipeline: RenamePipeline,
+  context: TemplateContext
+): string[] => {
+  const { stem, extension } = splitFileName(context.file.name);
+  let current = stem;
+  return pipeline.rules.map((rule) => {
+    const next = applyRule(rule, current, context);
+    if (next.trim()) current = next;
+    return withExtension(current, extension);
+  });
+};
@@ -0,0 +1,125 @@
+import { COLLISION_POLICY_LABELS } from "../utils/collisions";
+import { SORT_MODE_LABELS } from "../utils/fileSorting";
+import { MATCH_MODE_LABELS } from "../utils/findReplace";
+import { NAME_CASE_LABELS, NAME_CASE_TARGET_LABELS } from "../utils/nameCase";
+import { TARGET_PLATFORM_LABELS } from "../utils/nameValidation";
+import {
+  NUMBER_POSITION_LABELS,
+  NUMBER_STYLE_LABELS,
+  NUMBERING_RESTART_LABELS,
+} from "../utils/numbering";
+import { normalizeRenameRules } from "./pipeline";
+import { FILE_TYPE_CATEGORIES } from "./renamePlan";
+import { DEFAULT_RENAME_SETTINGS, RenameSettings } from "./settings";
+
+export interface RenamePreset {
+  id: string;
+  name: string;
+  settings: RenameSettings;
+}
+
+export const PRESETS_STORAGE_KEY = "fileRenamePresets";
+
+const PRESET_FILE_VERSION = 1;
+
+// Allowed values for settings that only take a fixed set of strings
+const ALLOWED_VALUES: { [key in keyof RenameSettings]?: string[] } = {
+  renameMode: ["sequential", "replace", "mapping", "rules"],
+  matchMode: Object.keys(MATCH_MODE_LABELS),
+  selectedFileType: ["all", ...Object.keys(FILE_TYPE_CATEGORIES)],
+  sortMode: Object.keys(SORT_MODE_LABELS),
+  sortDirection: ["asc", "desc"],
+  numberStyle: Object.keys(NUMBER_STYLE_LABELS),
+  numberPosition: Object.keys(NUMBER_POSITION_LABELS),
+  restartNumbering: Object.keys(NUMBERING_RESTART_LABELS),
+  collisionPolicy: Object.keys(COLLISION_POLICY_LABELS),
+  nameCase: Object.keys(NAME_CASE_LABELS),
+  nameCaseTarget: Object.keys(NAME_CASE_TARGET_LABELS),
+  targetPlatform: Object.keys(TARGET_PLATFORM_LABELS),
+};
+
+// Fill in settings from untrusted JSON, falling back to the defaults for
+// anything missing or of the wrong kind
+export const normalizeSettings = (value: unknown): RenameSettings => {
+  const source =
+    value && typeof value === "object"
+      ? (value as { [key: string]: unknown })
+      : {};
+  const settings = { ...DEFAULT_RENAME_SETTINGS };
+  (Object.keys(settings) as (keyof RenameSettings)[]).forEach((key) => {
+    const candidate = source[key];
+    const allowed = ALLOWED_VALUES[key];
+    if (
+      typeof candidate === typeof settings[key] &&
+      (!allowed || allowed.includes(candidate as string))
+    ) {
+      (settings as { [key: string]: unknown })[key] = candidate;
+    }
+  });
+  settings.renameRules = normalizeRenameRules(source.renameRules);
+  // Presets from before numbering could restart by type or day
+  if (
+    source.restartNumbering === undefined &&
+    source.restartNumberingPerFolder
+  ) {
+    settings.restartNumbering = "folder";
+  }
+  return settings;
+};
+
+// Turn presets into the JSON file shared between team members
+export const serializePresets = (presets: RenamePreset[]): string =>
+  JSON.stringify(
+    {
+      version: PRESET_FILE_VERSION,
+      presets: presets.map(({ name, settings }) => ({ name, settings })),
+    },
+    null,
+    2
+  );
+
+// Read presets from an exported JSON file. Accepts either the export
+// format or a bare array of presets, and gives every preset a new id.
+export const parsePresets = (
+  text: string,
+  createId: () => string
+): RenamePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The preset file is not valid JSON");
+  }
+
+  const entries = Array.isArray(data)
+    ? data
+    : (data as { presets?: unknown } | null)?.presets;
+  if (!Array.isArray(entries)) {
+    throw new Error("The preset file does not contain a list of presets");
+  }
+
+  return entries
+    .filter(
+      (entry): entry is { name: string; settings?: unknown } =>
+        !!entry &&
+        typeof entry.name === "string" &&
+        entry.name.trim().length > 0
+    )
+    .map((entry) => ({
+      id: createId(),
+      name: entry.name.trim(),
+      settings: normalizeSettings(entry.settings),
+    }));
+};
+
+// Add presets to a list, replacing any existing preset with the same name
+export const mergePresets = (
+  existing: RenamePreset[],
+  incoming: RenamePreset[]
+): RenamePreset[] => {
+  const incomingNames = new Set(incoming.map((preset) => preset.name));
+  return [
+    ...existing.filter((preset) => !incomingNames.has(preset.name)),
+    ...incoming,
+  ];
+};
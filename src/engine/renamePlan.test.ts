@@ -0,0 +1,203 @@
+import { parsePresets, serializePresets } from "./presets";
+import { EngineFile, planRenames } from "./renamePlan";
+import { DEFAULT_RENAME_SETTINGS, RenameSettings } from "./settings";
+
+const createFile = (
+  relativePath: string,
+  overrides: Partial<EngineFile> = {}
+): EngineFile => {
+  const name = relativePath.slice(relativePath.lastIndexOf("/") + 1);
+  return {
+    id: relativePath,
+    name,
+    size: 100,
+    type: name.endsWith(".txt") ? "text/plain" : "image/jpeg",
+    lastModified: Date.UTC(2026, 0, 15, 12),
+    relativePath,
+    ...overrides,
+  };
+};
+
+const FILES = [
+  createFile("trip/IMG_10.jpg"),
+  createFile("trip/IMG_2.jpg"),
+  createFile("trip/notes.txt"),
+  createFile("trip/day2/IMG_1.jpg"),
+];
+
+const settings = (overrides: Partial<RenameSettings>): RenameSettings => ({
+  ...DEFAULT_RENAME_SETTINGS,
+  baseFileName: "holiday",
+  ...overrides,
+});
+
+// New names in numbering order, with the path of each file
+const getNames = (files: EngineFile[], overrides: Partial<RenameSettings>) => {
+  const plan = planRenames(files, settings(overrides));
+  return plan.files.map((file) => [
+    file.id,
+    plan.resolution.names.get(file.id),
+  ]);
+};
+
+describe("planRenames", () => {
+  test("numbers files with the default template in manual order", () => {
+    expect(getNames(FILES, {})).toEqual([
+      ["trip/IMG_10.jpg", "holiday_1.jpg"],
+      ["trip/IMG_2.jpg", "holiday_2.jpg"],
+      ["trip/notes.txt", "holiday_3.txt"],
+      ["trip/day2/IMG_1.jpg", "holiday_4.jpg"],
+    ]);
+  });
+
+  test("sorts names naturally and filters by type", () => {
+    expect(
+      getNames(FILES, {
+        sortMode: "name",
+        selectedFileType: "images",
+        nameTemplate: "{parent}-{n:00}.{ext}",
+      })
+    ).toEqual([
+      ["trip/day2/IMG_1.jpg", "day2-01.jpg"],
+      ["trip/IMG_2.jpg", "trip-02.jpg"],
+      ["trip/IMG_10.jpg", "trip-03.jpg"],
+    ]);
+  });
+
+  test("restarts numbering per folder", () => {
+    expect(
+      getNames(FILES, { restartNumbering: "folder", nameTemplate: "{n}.{ext}" })
+    ).toEqual([
+      ["trip/IMG_10.jpg", "1.jpg"],
+      ["trip/IMG_2.jpg", "2.jpg"],
+      ["trip/notes.txt", "3.txt"],
+      ["trip/day2/IMG_1.jpg", "1.jpg"],
+    ]);
+  });
+
+  test("adds numbers before or after names from templates without {n}", () => {
+    expect(
+      getNames(FILES.slice(0, 2), {
+        nameTemplate: "{original}.{ext}",
+        numberPosition: "start",
+        numberSeparator: "-",
+      })
+    ).toEqual([
+      ["trip/IMG_10.jpg", "1-IMG_10.jpg"],
+      ["trip/IMG_2.jpg", "2-IMG_2.jpg"],
+    ]);
+    // The template already places the number
+    expect(getNames(FILES.slice(0, 1), { numberPosition: "end" })).toEqual([
+      ["trip/IMG_10.jpg", "holiday_1.jpg"],
+    ]);
+  });
+
+  test("only adds numbers before or after names in sequential mode", () => {
+    expect(
+      getNames(FILES.slice(0, 1), {
+        renameMode: "replace",
+        searchText: "IMG",
+        replaceText: "photo",
+        nameTemplate: "{original}.{ext}",
+        numberPosition: "end",
+      })
+    ).toEqual([["trip/IMG_10.jpg", "photo_10.jpg"]]);
+  });
+
+  test("resolves clashes with the collision policy", () => {
+    const overrides: Partial<RenameSettings> = {
+      nameTemplate: "{base}.{ext}",
+      preserveFolders: false,
+    };
+    expect(getNames(FILES, overrides)).toEqual([
+      ["trip/IMG_10.jpg", "holiday.jpg"],
+      ["trip/IMG_2.jpg", "holiday (2).jpg"],
+      ["trip/notes.txt", "holiday.txt"],
+      ["trip/day2/IMG_1.jpg", "holiday (3).jpg"],
+    ]);
+
+    const plan = planRenames(
+      FILES,
+      settings({ ...overrides, collisionPolicy: "skip" })
+    );
+    expect(Array.from(plan.resolution.skipped)).toEqual([
+      "trip/IMG_2.jpg",
+      "trip/day2/IMG_1.jpg",
+    ]);
+  });
+
+  test("fixes extensions that don't fit the content", () => {
+    const zip = { mime: "application/zip", extensions: ["zip", "docx"] };
+    const files = [
+      createFile("trip/photo.png", {
+        signature: { mime: "image/jpeg", extensions: ["jpg", "jpeg"] },
+      }),
+      createFile("trip/report.docx", { signature: zip }),
+      createFile("trip/backup.bin", { signature: zip }),
+    ];
+    expect(
+      getNames(files, { nameTemplate: "{original}.{ext}", fixExtensions: true })
+    ).toEqual([
+      ["trip/photo.png", "photo.jpg"],
+      ["trip/report.docx", "report.docx"],
+      ["trip/backup.bin", "backup.zip"],
+    ]);
+  });
+
+  test("keeps pinned names unless told to overwrite them", () => {
+    const files = [
+      createFile("trip/a.jpg", { newName: "cover.jpg", pinned: true }),
+      createFile("trip/b.jpg"),
+    ];
+    expect(getNames(files, {})).toEqual([
+      ["trip/a.jpg", "cover.jpg"],
+      ["trip/b.jpg", "holiday_2.jpg"],
+    ]);
+    expect(getNames(files, { overwritePinned: true })).toEqual([
+      ["trip/a.jpg", "holiday_1.jpg"],
+      ["trip/b.jpg", "holiday_2.jpg"],
+    ]);
+  });
+
+  test("replaces text in replace mode", () => {
+    expect(
+      getNames(FILES.slice(0, 2), {
+        renameMode: "replace",
+        searchText: "IMG_(\\d+)",
+        replaceText: "photo-$1",
+        matchMode: "regex",
+      })
+    ).toEqual([
+      ["trip/IMG_10.jpg", "photo-10.jpg"],
+      ["trip/IMG_2.jpg", "photo-2.jpg"],
+    ]);
+  });
+
+  test("makes no names while the settings are incomplete", () => {
+    const plan = planRenames(FILES, settings({ baseFileName: "" }));
+    expect(plan.previews.size).toBe(0);
+    expect(plan.resolution.names.size).toBe(0);
+  });
+
+  test("gives the CLI the same names as the web app for a shared preset", () => {
+    const webSettings = settings({
+      nameTemplate: "{modified:YYYY-MM-DD}_{base}_{n}.{ext}",
+      sortMode: "name",
+      sortDirection: "desc",
+      autoNumberPadding: true,
+      nameCase: "kebab",
+      targetPlatform: "windows",
+      autoFixNames: true,
+    });
+    const [preset] = parsePresets(
+      serializePresets([
+        { id: "shared", name: "Shared", settings: webSettings },
+      ]),
+      () => "imported"
+    );
+    expect(preset.settings).toEqual(webSettings);
+    expect(getNames(FILES, preset.settings)).toEqual(
+      getNames(FILES, webSettings)
+    );
+  });
+});
@@ -0,0 +1,450 @@
+import {
+  CollisionResolution,
+  NameRequest,
+  resolveCollisions,
+} from "../utils/collisions";
+import {
+  getExtension,
+  getFolderPath,
+  getNameWithoutExtension,
+  transformExtension,
+  withExtension,
+} from "../utils/fileNames";
+import {
+  extensionMatchesSignature,
+  FileSignature,
+} from "../utils/fileSignatures";
+import { sortFiles } from "../utils/fileSorting";
+import { FileCategory, getFileCategory } from "../utils/fileTypes";
+import { applyFindReplace, buildSearchPattern } from "../utils/findReplace";
+import { applyNameCase } from "../utils/nameCase";
+import {
+  fixFileName,
+  getPathKey,
+  NameIssue,
+  validateNames,
+} from "../utils/nameValidation";
+import {
+  ParsedTemplate,
+  parseTemplate,
+  renderTemplate,
+  TemplateFile,
+  formatDate,
+  templateUsesField,
+} from "../utils/namingTemplate";
+import {
+  addSequenceNumber,
+  formatSequence,
+  getAutoPadding,
+  NumberingRestart,
+  SequenceFormat,
+} from "../utils/numbering";
+import {
+  CompiledMapping,
+  compileNameMapping,
+  keepExtension,
+  MappingMatch,
+  matchNameMapping,
+  NameMapping,
+} from "./mapping";
+import {
+  compileRenamePipeline,
+  RenamePipeline,
+  runRenamePipeline,
+} from "./pipeline";
+import { RenameSettings } from "./settings";
+
+// A file as the engine sees it, whether it comes from the browser or disk
+export interface EngineFile extends TemplateFile {
+  id: string;
+  // Name given by an earlier rename or picked by hand
+  newName?: string;
+  // Set for hand-picked names, which batch renames leave alone
+  pinned?: boolean;
+  // Type detected from the first bytes, null when unknown
+  signature?: FileSignature | null;
+}
+
+// Categories behind each file type filter other than "all"
+export const FILE_TYPE_CATEGORIES: { [filter: string]: FileCategory } = {
+  images: "image",
+  videos: "video",
+  audio: "audio",
+  documents: "document",
+  others: "other",
+};
+
+export const filterFilesByType = <T extends EngineFile>(
+  files: T[],
+  selectedFileType: string
+): T[] =>
+  selectedFileType === "all"
+    ? files
+    : files.filter(
+        (file) =>
+          getFileCategory(file.type) === FILE_TYPE_CATEGORIES[selectedFileType]
+      );
+
+// Settings compiled once so every file can be named cheaply
+export interface NamingRules {
+  settings: RenameSettings;
+  parsedTemplate: ParsedTemplate;
+  templateError: string | null;
+  requiresBaseName: boolean;
+  searchPattern: RegExp | null;
+  searchError: string | null;
+  // Imported names, used in mapping mode
+  mapping: CompiledMapping | null;
+  // Enabled rename rules, used in rules mode
+  pipeline: RenamePipeline;
+  // How sequence numbers are counted and written
+  numbering: SequenceFormat;
+  // Whether a number is added before or after generated names. Only
+  // templates without {n} get one, and only in sequential mode.
+  addsSequenceNumber: boolean;
+  // False while the settings are incomplete or invalid
+  canGenerateNames: boolean;
+}
+
+export const compileNamingRules = (
+  settings: RenameSettings,
+  nameMapping: NameMapping | null = null
+): NamingRules => {
+  const parsedTemplate = parseTemplate(settings.nameTemplate);
+  const templateError = parsedTemplate.errors[0] || null;
+  const requiresBaseName = templateUsesField(parsedTemplate, "base");
+
+  let searchPattern: RegExp | null = null;
+  let searchError: string | null = null;
+  if (settings.searchText) {
+    try {
+      searchPattern = buildSearchPattern({
+        search: settings.searchText,
+        matchMode: settings.matchMode,
+      });
+    } catch (err) {
+      searchError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  const mapping = nameMapping ? compileNameMapping(nameMapping) : null;
+  const pipeline = compileRenamePipeline(settings.renameRules);
+
+  const canGenerateNames =
+    settings.renameMode === "replace"
+      ? !!searchPattern
+      : settings.renameMode === "mapping"
+      ? !!mapping && mapping.rows.length > 0
+      : settings.renameMode === "rules"
+      ? pipeline.errors.length === 0 && pipeline.rules.length > 0
+      : !templateError && (!requiresBaseName || !!settings.baseFileName);
+
+  return {
+    settings,
+    parsedTemplate,
+    templateError,
+    requiresBaseName,
+    searchPattern,
+    searchError,
+    mapping,
+    pipeline,
+    numbering: {
+      start: settings.numberStart,
+      step: settings.numberStep,
+      padding: settings.numberPadding,
+      style: settings.numberStyle,
+    },
+    addsSequenceNumber:
+      settings.renameMode === "sequential" &&
+      settings.numberPosition !== "template" &&
+      !templateUsesField(parsedTemplate, "n"),
+    canGenerateNames,
+  };
+};
+
+// Group files by the folder they came from, keeping their order
+export const getFolderGroups = <T extends EngineFile>(files: T[]) => {
+  const groups = new Map<string, T[]>();
+  files.forEach((file) => {
+    const folder = getFolderPath(file.relativePath);
+    const group = groups.get(folder);
+    if (group) {
+      group.push(file);
+    } else {
+      groups.set(folder, [file]);
+    }
+  });
+  return Array.from(groups, ([folder, files]) => ({ folder, files }));
+};
+
+// Counter a file is numbered by, when numbering restarts for each group
+const getCounterKey = (file: EngineFile, restart: NumberingRestart) => {
+  switch (restart) {
+    case "category":
+      return getFileCategory(file.type);
+    case "folder":
+      return getFolderPath(file.relativePath);
+    case "day":
+      // Photos count by the day they were taken
+      return formatDate(
+        new Date(file.exif?.dateTaken ?? file.lastModified),
+        "YYYY-MM-DD"
+      );
+    default:
+      return "";
+  }
+};
+
+// Position of each file in its numbering sequence
+export const getSequenceIndexes = (
+  files: EngineFile[],
+  restartNumbering: NumberingRestart
+): Map<string, number> => {
+  const indexes = new Map<string, number>();
+  const counters = new Map<string, number>();
+  files.forEach((file) => {
+    const key = getCounterKey(file, restartNumbering);
+    const index = counters.get(key) ?? 0;
+    indexes.set(file.id, index);
+    counters.set(key, index + 1);
+  });
+  return indexes;
+};
+
+// Generate a name with the template or find & replace rules. Mapped files
+// pass the template of their mapping row.
+const generateFromRules = (
+  file: EngineFile,
+  rules: NamingRules,
+  sequence: number,
+  template = rules.parsedTemplate
+): string => {
+  const { settings } = rules;
+  if (settings.renameMode === "replace") {
+    if (!rules.searchPattern) return file.name;
+    return applyFindReplace(file.name, rules.searchPattern, {
+      replace: settings.replaceText,
+      matchMode: settings.matchMode,
+    });
+  }
+  if (settings.renameMode === "rules") {
+    const steps = runRenamePipeline(rules.pipeline, {
+      file,
+      base: settings.baseFileName,
+      sequence,
+      numbering: rules.numbering,
+    });
+    return steps[steps.length - 1] ?? file.name;
+  }
+  return renderTemplate(template, {
+    file,
+    base: settings.baseFileName,
+    sequence,
+    numbering: rules.numbering,
+  });
+};
+
+// Generate the new name for a file using the active rename mode, with the
+// case transform applied to the original or the generated name
+export const generateFileName = (
+  file: EngineFile,
+  rules: NamingRules,
+  sequence: number,
+  template = rules.parsedTemplate
+): string => {
+  const { settings } = rules;
+  if (settings.nameCase === "none") {
+    return generateFromRules(file, rules, sequence, template);
+  }
+  if (settings.nameCaseTarget === "original") {
+    const name = applyNameCase(file.name, settings.nameCase);
+    return generateFromRules({ ...file, name }, rules, sequence, template);
+  }
+  return applyNameCase(
+    generateFromRules(file, rules, sequence, template),
+    settings.nameCase
+  );
+};
+
+// Name of a file after each step of the rename rules, for previews. Like
+// generateFileName, it starts from the name with any case transform on the
+// original applied.
+export const getRuleSteps = (
+  file: EngineFile,
+  rules: NamingRules,
+  sequence: number
+): string[] => {
+  const { settings } = rules;
+  const name =
+    settings.nameCaseTarget === "original"
+      ? applyNameCase(file.name, settings.nameCase)
+      : file.name;
+  return runRenamePipeline(rules.pipeline, {
+    file: { ...file, name },
+    base: settings.baseFileName,
+    sequence,
+    numbering: rules.numbering,
+  });
+};
+
+// Check whether a file's extension doesn't fit its content
+export const hasExtensionMismatch = (file: EngineFile): boolean =>
+  !!file.signature &&
+  !extensionMatchesSignature(getExtension(file.name), file.signature);
+
+// Give a generated name the usual extension for the file's content
+export const fixExtension = (name: string, file: EngineFile): string =>
+  file.signature &&
+  hasExtensionMismatch(file) &&
+  !extensionMatchesSignature(getExtension(name), file.signature)
+    ? withExtension(getNameWithoutExtension(name), file.signature.extensions[0])
+    : name;
+
+// Folder a file is written to, empty when the output is flattened
+export const getOutputFolder = (
+  file: EngineFile,
+  preserveFolders: boolean
+): string => (preserveFolders ? getFolderPath(file.relativePath) : "");
+
+export interface OutputNames extends CollisionResolution {
+  // Problems with the final names on the target system, by file id
+  issues: Map<string, NameIssue[]>;
+}
+
+// Settle the final names of files written out together. Names are fixed
+// for the target system first when asked, so the fixes can't add clashes.
+export const resolveNames = (
+  requests: NameRequest[],
+  settings: RenameSettings
+): OutputNames => {
+  const { targetPlatform, autoFixNames } = settings;
+  const resolution = autoFixNames
+    ? resolveCollisions(
+        requests.map((request) => ({
+          ...request,
+          name: fixFileName(request.name, request.folder, targetPlatform),
+        })),
+        settings.collisionPolicy,
+        // Names that only differ by case are the same file on the target
+        (path) => getPathKey(path, targetPlatform)
+      )
+    : resolveCollisions(requests, settings.collisionPolicy);
+
+  const issues = validateNames(
+    requests
+      .filter(({ id }) => resolution.names.has(id))
+      .map((request) => ({
+        ...request,
+        name: resolution.names.get(request.id) as string,
+      })),
+    targetPlatform
+  );
+  return { ...resolution, issues };
+};
+
+export interface RenamePlan<T extends EngineFile> {
+  // Files that pass the type filter, in numbering order. In mapping mode
+  // the matched files come first, in the order of the mapping.
+  files: T[];
+  // Generated (or pinned) name for each file, empty when names can't be made
+  previews: Map<string, string>;
+  // Final names once clashes are resolved with the collision policy, and
+  // checked against the target system
+  resolution: OutputNames;
+  // How the files line up with the mapping, set in mapping mode
+  mapping: MappingMatch<T> | null;
+  // Name after each rename rule by file id, set in rules mode
+  ruleSteps: Map<string, string[]> | null;
+}
+
+// Work out the new name of every file. The web UI and the CLI both go
+// through here, so they always agree on the result.
+export const planRenames = <T extends EngineFile>(
+  files: T[],
+  settings: RenameSettings,
+  namingRules: NamingRules = compileNamingRules(settings)
+): RenamePlan<T> => {
+  const sortedFiles = sortFiles(
+    filterFilesByType(files, settings.selectedFileType),
+    settings.sortMode,
+    settings.sortDirection
+  );
+  const mapping =
+    settings.renameMode === "mapping" && namingRules.mapping
+      ? matchNameMapping(sortedFiles, namingRules.mapping)
+      : null;
+  // Files the mapping doesn't name keep their names
+  const visibleFiles = mapping
+    ? [...mapping.matchedFiles, ...mapping.unmatchedFiles]
+    : sortedFiles;
+
+  const previews = new Map<string, string>();
+  const ruleSteps =
+    settings.renameMode === "rules" ? new Map<string, string[]>() : null;
+  if (namingRules.canGenerateNames) {
+    const sequenceIndexes = getSequenceIndexes(
+      mapping ? mapping.matchedFiles : visibleFiles,
+      settings.restartNumbering
+    );
+    // Automatic padding fits the longest sequence
+    let longestSequence = 0;
+    sequenceIndexes.forEach((index) => {
+      longestSequence = Math.max(longestSequence, index + 1);
+    });
+    const rules = settings.autoNumberPadding
+      ? {
+          ...namingRules,
+          numbering: {
+            ...namingRules.numbering,
+            padding: getAutoPadding(longestSequence, namingRules.numbering),
+          },
+        }
+      : namingRules;
+
+    visibleFiles.forEach((file) => {
+      if (file.pinned && file.newName && !settings.overwritePinned) {
+        previews.set(file.id, file.newName);
+        return;
+      }
+      const row = mapping?.rows.get(file.id);
+      if (mapping && !row) return;
+      const sequence = (sequenceIndexes.get(file.id) ?? 0) + 1;
+      ruleSteps?.set(file.id, getRuleSteps(file, rules, sequence));
+      const generatedName = row
+        ? keepExtension(
+            generateFileName(file, rules, sequence, row.template),
+            file
+          )
+        : generateFileName(file, rules, sequence);
+      const name =
+        rules.addsSequenceNumber && settings.numberPosition !== "template"
+          ? addSequenceNumber(
+              generatedName,
+              formatSequence(sequence, rules.numbering),
+              settings.numberPosition,
+              settings.numberSeparator
+            )
+          : generatedName;
+      previews.set(
+        file.id,
+        transformExtension(
+          settings.fixExtensions ? fixExtension(name, file) : name,
+          settings
+        )
+      );
+    });
+  }
+
+  const resolution = resolveNames(
+    visibleFiles
+      .filter((file) => previews.has(file.id))
+      .map((file) => ({
+        id: file.id,
+        folder: getOutputFolder(file, settings.preserveFolders),
+        name: previews.get(file.id) as string,
+      })),
+    settings
+  );
+
+  return { files: visibleFiles, previews, resolution, mapping, ruleSteps };
+};
@@ -0,0 +1,87 @@
+import { CollisionPolicy } from "../utils/collisions";
+import { ExtensionOptions } from "../utils/fileNames";
+import { SortDirection, SortMode } from "../utils/fileSorting";
+import { MatchMode } from "../utils/findReplace";
+import { NameCase, NameCaseTarget } from "../utils/nameCase";
+import { TargetPlatform } from "../utils/nameValidation";
+import { DEFAULT_TEMPLATE } from "../utils/namingTemplate";
+import {
+  NumberingRestart,
+  NumberPosition,
+  NumberStyle,
+} from "../utils/numbering";
+import { RenameRule } from "./pipeline";
+
+export type RenameMode = "sequential" | "replace" | "mapping" | "rules";
+
+// Everything that decides how files are named, shared by the web UI, the
+// CLI and saved presets
+export interface RenameSettings extends ExtensionOptions {
+  baseFileName: string;
+  nameTemplate: string;
+  renameMode: RenameMode;
+  // Steps run in order in rules mode
+  renameRules: RenameRule[];
+  searchText: string;
+  replaceText: string;
+  matchMode: MatchMode;
+  selectedFileType: string;
+  sortMode: SortMode;
+  sortDirection: SortDirection;
+  groupByFolder: boolean;
+  numberStart: number;
+  numberStep: number;
+  // Digits numbers are padded to with zeros
+  numberPadding: number;
+  // Pad numbers to the width of the largest one instead
+  autoNumberPadding: boolean;
+  numberStyle: NumberStyle;
+  numberPosition: NumberPosition;
+  // Put between the name and a number added before or after it
+  numberSeparator: string;
+  restartNumbering: NumberingRestart;
+  preserveFolders: boolean;
+  collisionPolicy: CollisionPolicy;
+  overwritePinned: boolean;
+  // Give files the extension that matches their content
+  fixExtensions: boolean;
+  nameCase: NameCase;
+  nameCaseTarget: NameCaseTarget;
+  // System the names are checked against
+  targetPlatform: TargetPlatform;
+  // Change names that break the target's rules instead of blocking export
+  autoFixNames: boolean;
+}
+
+export const DEFAULT_RENAME_SETTINGS: RenameSettings = {
+  baseFileName: "",
+  nameTemplate: DEFAULT_TEMPLATE,
+  renameMode: "sequential",
+  renameRules: [],
+  searchText: "",
+  replaceText: "",
+  matchMode: "text",
+  selectedFileType: "all",
+  sortMode: "manual",
+  sortDirection: "asc",
+  groupByFolder: false,
+  numberStart: 1,
+  numberStep: 1,
+  numberPadding: 0,
+  autoNumberPadding: false,
+  numberStyle: "numbers",
+  numberPosition: "template",
+  numberSeparator: "_",
+  restartNumbering: "never",
+  preserveFolders: true,
+  collisionPolicy: "suffix",
+  overwritePinned: false,
+  fixExtensions: false,
+  lowercaseExtensions: false,
+  normalizeExtensionAliases: false,
+  replacementExtension: "",
+  nameCase: "none",
+  nameCaseTarget: "generated",
+  targetPlatform: "portable",
+  autoFixNames: false,
+};
@@ -0,0 +1,133 @@
+// SHA-256 that takes its input in chunks, so files of any size can be
+// hashed as they're read. Web Crypto only hashes whole buffers.
+
+// First 32 bits of the fractional parts of the cube roots of the first 64
+// primes
+const ROUND_CONSTANTS = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1,
+  0x923f82a4, 0xab1c5ed5, 0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3,
+  0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+  0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147,
+  0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+  0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b,
+  0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+  0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208,
+  0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// First 32 bits of the fractional parts of the square roots of the first 8
+// primes
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c,
+  0x1f83d9ab, 0x5be0cd19,
+];
+
+const BLOCK_SIZE = 64;
+
+const rotateRight = (value: number, bits: number) =>
+  (value >>> bits) | (value << (32 - bits));
+
+export const createSha256 = () => {
+  const state = new Uint32Array(INITIAL_STATE);
+  const words = new Uint32Array(64);
+  // Input left over until it fills a block
+  const block = new Uint8Array(BLOCK_SIZE);
+  let blockLength = 0;
+  let totalLength = 0;
+
+  // Mix one 64-byte block into the state
+  const compress = (data: Uint8Array, offset: number) => {
+    for (let i = 0; i < 16; i++) {
+      const start = offset + i * 4;
+      words[i] =
+        (data[start] << 24) |
+        (data[start + 1] << 16) |
+        (data[start + 2] << 8) |
+        data[start + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const previous15 = words[i - 15];
+      const previous2 = words[i - 2];
+      const sigma0 =
+        rotateRight(previous15, 7) ^
+        rotateRight(previous15, 18) ^
+        (previous15 >>> 3);
+      const sigma1 =
+        rotateRight(previous2, 17) ^
+        rotateRight(previous2, 19) ^
+        (previous2 >>> 10);
+      words[i] = words[i - 16] + sigma0 + words[i - 7] + sigma1;
+    }
+
+    let a = state[0];
+    let b = state[1];
+    let c = state[2];
+    let d = state[3];
+    let e = state[4];
+    let f = state[5];
+    let g = state[6];
+    let h = state[7];
+    for (let i = 0; i < 64; i++) {
+      const sum1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + sum1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const sum0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (sum0 + majority) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  };
+
+  const update = (chunk: Uint8Array) => {
+    let offset = 0;
+    totalLength += chunk.length;
+    if (blockLength > 0) {
+      offset = Math.min(BLOCK_SIZE - blockLength, chunk.length);
+      block.set(chunk.subarray(0, offset), blockLength);
+      blockLength += offset;
+      if (blockLength < BLOCK_SIZE) return;
+      compress(block, 0);
+      blockLength = 0;
+    }
+    for (; offset + BLOCK_SIZE <= chunk.length; offset += BLOCK_SIZE) {
+      compress(chunk, offset);
+    }
+    block.set(chunk.subarray(offset), 0);
+    blockLength = chunk.length - offset;
+  };
+
+  // Finish the hash and return it as lowercase hex
+  const digest = () => {
+    // A 1 bit, zeros and the length in bits fill the last block or two
+    const padding = new Uint8Array(
+      (blockLength < 56 ? 56 : 120) - blockLength + 8
+    );
+    padding[0] = 0x80;
+    const view = new DataView(padding.buffer);
+    view.setUint32(padding.length - 8, Math.floor(totalLength / 0x20000000));
+    view.setUint32(padding.length - 4, (totalLength * 8) >>> 0);
+    update(padding);
+    return Array.from(state, (word) => word.toString(16).padStart(8, "0")).join(
+      ""
+    );
+  };
+
+  return { update, digest };
+};
@@ -0,0 +1,394 @@
+import {
+  ArchiveEntry,
+  ArchiveSink,
+  ArchiveWriteOptions,
+  createDeflater,
+  DEFAULT_COMPRESSION_LEVEL,
+  ExtractedFile,
+  readChunks,
+} from "./archiveStream";
+
+export interface TarOptions extends ArchiveWriteOptions {
+  // Compress the whole archive with gzip, using the compression level
+  gzip?: boolean;
+}
+
+const BLOCK_SIZE = 512;
+// Archives end on a whole record of 20 blocks, like tar itself writes them
+const RECORD_SIZE = BLOCK_SIZE * 20;
+// Largest size the 11 octal digits of the size field can hold
+const MAX_OCTAL_SIZE = 0o77777777777;
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+// Write a number into a header field as zero-padded octal followed by NUL
+const writeOctal = (
+  header: Uint8Array,
+  offset: number,
+  length: number,
+  value: number
+) => {
+  header.set(
+    encoder.encode(value.toString(8).padStart(length - 1, "0")),
+    offset
+  );
+};
+
+// Split a path over the name and prefix fields of a ustar header at a
+// slash, or return null when it doesn't fit
+const splitPath = (path: Uint8Array) => {
+  if (path.length <= NAME_LENGTH) {
+    return { name: path, prefix: new Uint8Array(0) };
+  }
+  const last = Math.min(PREFIX_LENGTH, path.length - 2);
+  for (let i = path.length - NAME_LENGTH - 1; i <= last; i++) {
+    if (path[i] === 0x2f) {
+      return { name: path.subarray(i + 1), prefix: path.subarray(0, i) };
+    }
+  }
+  return null;
+};
+
+const createHeader = ({
+  name,
+  prefix = new Uint8Array(0),
+  size,
+  mtime,
+  type,
+}: {
+  name: Uint8Array;
+  prefix?: Uint8Array;
+  size: number;
+  mtime: number;
+  // "0" for a file, "x" for the pax header of the next file
+  type: "0" | "x";
+}) => {
+  const header = new Uint8Array(BLOCK_SIZE);
+  header.set(name.subarray(0, NAME_LENGTH), 0);
+  writeOctal(header, 100, 8, 0o644);
+  writeOctal(header, 108, 8, 0);
+  writeOctal(header, 116, 8, 0);
+  writeOctal(header, 124, 12, size);
+  writeOctal(header, 136, 12, mtime);
+  header[156] = type.charCodeAt(0);
+  header.set(encoder.encode("ustar"), 257);
+  header.set(encoder.encode("00"), 263);
+  header.set(prefix, 345);
+
+  // The checksum is taken with its own field filled with spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.set(encoder.encode(checksum.toString(8).padStart(6, "0")), 148);
+  header[154] = 0;
+  return header;
+};
+
+// A pax record starts with its own length in bytes, including the digits
+// of that length
+const createPaxRecord = (key: string, value: string) => {
+  const bodyLength = encoder.encode(` ${key}=${value}\n`).length;
+  let digits = 1;
+  while ((bodyLength + digits).toString().length !== digits) {
+    digits++;
+  }
+  return `${bodyLength + digits} ${key}=${value}\n`;
+};
+
+// Write files into a POSIX tar archive under their new paths, optionally
+// compressed with gzip. Paths that don't fit the ustar header and files
+// over 8 GB get a pax header.
+export const writeTar = async (
+  entries: ArchiveEntry[],
+  sink: ArchiveSink,
+  {
+    gzip = false,
+    level = DEFAULT_COMPRESSION_LEVEL,
+    onProgress,
+    onRead,
+    getExtraEntries,
+    signal,
+  }: TarOptions = {}
+): Promise<void> => {
+  const deflater = gzip ? createDeflater(sink, level, "gzip") : null;
+  let totalSize = entries.reduce((total, { file }) => total + file.size, 0);
+  let processedSize = 0;
+  let entriesWritten = 0;
+  let offset = 0;
+
+  const write = async (chunk: Uint8Array) => {
+    await (deflater || sink).write(chunk);
+    offset += chunk.length;
+  };
+
+  // Fill the rest of the block with zeros
+  const writePadding = async () => {
+    const remainder = offset % BLOCK_SIZE;
+    if (remainder > 0) {
+      await write(new Uint8Array(BLOCK_SIZE - remainder));
+    }
+  };
+
+  const writeEntry = async ({ path, file }: ArchiveEntry, index: number) => {
+    const pathBytes = encoder.encode(path);
+    const split = splitPath(pathBytes);
+    const mtime = Math.max(Math.floor(file.lastModified / 1000), 0);
+
+    const paxRecords: string[] = [];
+    if (!split) {
+      paxRecords.push(createPaxRecord("path", path));
+    }
+    if (file.size > MAX_OCTAL_SIZE) {
+      paxRecords.push(createPaxRecord("size", file.size.toString()));
+    }
+    if (paxRecords.length > 0) {
+      const paxData = encoder.encode(paxRecords.join(""));
+      await write(
+        createHeader({
+          name: encoder.encode("PaxHeader"),
+          size: paxData.length,
+          mtime,
+          type: "x",
+        })
+      );
+      await write(paxData);
+      await writePadding();
+    }
+
+    await write(
+      createHeader({
+        name: split ? split.name : pathBytes,
+        prefix: split?.prefix,
+        size: file.size > MAX_OCTAL_SIZE ? 0 : file.size,
+        mtime,
+        type: "0",
+      })
+    );
+    await readChunks(
+      file,
+      async (chunk) => {
+        onRead?.(index, chunk);
+        await write(chunk);
+        processedSize += chunk.length;
+        onProgress?.(processedSize, totalSize, entriesWritten);
+      },
+      signal
+    );
+    await writePadding();
+    entriesWritten++;
+    onProgress?.(processedSize, totalSize, entriesWritten);
+  };
+
+  for (let i = 0; i < entries.length; i++) {
+    await writeEntry(entries[i], i);
+  }
+  const extraEntries = getExtraEntries?.() || [];
+  extraEntries.forEach(({ file }) => {
+    totalSize += file.size;
+  });
+  for (let i = 0; i < extraEntries.length; i++) {
+    await writeEntry(extraEntries[i], entries.length + i);
+  }
+
+  // Two empty blocks mark the end of the archive
+  await write(new Uint8Array(BLOCK_SIZE * 2));
+  const remainder = offset % RECORD_SIZE;
+  if (remainder > 0) {
+    await write(new Uint8Array(RECORD_SIZE - remainder));
+  }
+  await deflater?.finish();
+};
+
+// Read a text field of a header, which ends at the first NUL
+const readString = (header: Uint8Array, offset: number, length: number) => {
+  const field = header.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return decoder.decode(end === -1 ? field : field.subarray(0, end));
+};
+
+// Read a number field, in octal or in the base-256 form GNU tar uses for
+// big values
+const readNumber = (header: Uint8Array, offset: number, length: number) => {
+  if (header[offset] & 0x80) {
+    let value = header[offset] & 0x7f;
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + header[offset + i];
+    }
+    return value;
+  }
+  return parseInt(readString(header, offset, length).trim(), 8) || 0;
+};
+
+// Whether a block is a tar header, checked against its checksum
+export const isTarHeader = (block: Uint8Array) => {
+  if (block.length < BLOCK_SIZE) return false;
+  let checksum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    checksum += i >= 148 && i < 156 ? 0x20 : block[i];
+  }
+  return checksum !== 0x20 * 8 && checksum === readNumber(block, 148, 8);
+};
+
+// Read the key=value records of a pax header
+const parsePaxRecords = (data: Uint8Array) => {
+  const records: { [key: string]: string } = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(decoder.decode(data.subarray(offset, space)), 10);
+    if (space === -1 || !(length > 0)) break;
+    const record = decoder.decode(
+      data.subarray(space + 1, offset + length - 1)
+    );
+    const separator = record.indexOf("=");
+    if (separator > 0) {
+      records[record.slice(0, separator)] = record.slice(separator + 1);
+    }
+    offset += length;
+  }
+  return records;
+};
+
+interface TarReaderEntry {
+  type: string;
+  path: string;
+  size: number;
+  mtime: number;
+  remaining: number;
+  parts: Uint8Array[];
+}
+
+// Read the files of a tar archive from data written to it in chunks of any
+// size. Folders, links and other special entries are skipped.
+export const createTarReader = (
+  onFile: (file: ExtractedFile) => void | Promise<void>
+) => {
+  const header = new Uint8Array(BLOCK_SIZE);
+  let headerLength = 0;
+  let entry: TarReaderEntry | null = null;
+  let padding = 0;
+  let ended = false;
+  // Set by pax and GNU long name entries for the entry after them
+  let nextPath: string | undefined;
+  let nextSize: number | undefined;
+  let nextMtime: number | undefined;
+
+  const finishEntry = async ({ type, path, mtime, parts }: TarReaderEntry) => {
+    switch (type) {
+      case "0":
+      case "\0":
+      case "7": {
+        const filePath = path.replace(/^(\.\/)+/, "");
+        if (filePath && !filePath.endsWith("/")) {
+          await onFile({
+            path: filePath,
+            blob: new Blob(parts),
+            lastModified: mtime * 1000,
+          });
+        }
+        break;
+      }
+      case "x": {
+        const records = parsePaxRecords(
+          new Uint8Array(await new Blob(parts).arrayBuffer())
+        );
+        if (records.path) nextPath = records.path;
+        if (records.size) nextSize = Number(records.size);
+        if (records.mtime) nextMtime = Math.floor(Number(records.mtime));
+        break;
+      }
+      case "L":
+        nextPath = readString(
+          new Uint8Array(await new Blob(parts).arrayBuffer()),
+          0,
+          Infinity
+        );
+        break;
+    }
+  };
+
+  const readHeader = async () => {
+    if (header.every((byte) => byte === 0)) {
+      ended = true;
+      return;
+    }
+    if (!isTarHeader(header)) {
+      throw new Error("isn't a valid TAR archive");
+    }
+    const name = readString(header, 0, NAME_LENGTH);
+    const prefix =
+      readString(header, 257, 5) === "ustar"
+        ? readString(header, 345, PREFIX_LENGTH)
+        : "";
+    const type = String.fromCharCode(header[156]);
+    const size = nextSize ?? readNumber(header, 124, 12);
+    const current: TarReaderEntry = {
+      type,
+      path: nextPath ?? (prefix ? `${prefix}/${name}` : name),
+      size,
+      mtime: nextMtime ?? readNumber(header, 136, 12),
+      remaining: size,
+      parts: [],
+    };
+    // Global pax headers don't change the next entry
+    if (type !== "g") {
+      nextPath = undefined;
+      nextSize = undefined;
+      nextMtime = undefined;
+    }
+    padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (size === 0) {
+      await finishEntry(current);
+    } else {
+      entry = current;
+    }
+  };
+
+  const write = async (chunk: Uint8Array) => {
+    let offset = 0;
+    while (offset < chunk.length && !ended) {
+      if (entry) {
+        const length = Math.min(entry.remaining, chunk.length - offset);
+        // Only the data of files and the headers about them is kept
+        if ("07\0xL".includes(entry.type)) {
+          entry.parts.push(chunk.slice(offset, offset + length));
+        }
+        entry.remaining -= length;
+        offset += length;
+        if (entry.remaining === 0) {
+          const finished = entry;
+          entry = null;
+          await finishEntry(finished);
+        }
+      } else if (padding > 0) {
+        const length = Math.min(padding, chunk.length - offset);
+        padding -= length;
+        offset += length;
+      } else {
+        const length = Math.min(
+          BLOCK_SIZE - headerLength,
+          chunk.length - offset
+        );
+        header.set(chunk.subarray(offset, offset + length), headerLength);
+        headerLength += length;
+        offset += length;
+        if (headerLength === BLOCK_SIZE) {
+          headerLength = 0;
+          await readHeader();
+        }
+      }
+    }
+  };
+
+  return {
+    write,
+    // Check that the archive didn't stop in the middle of a file
+    finish: () => {
+      if (entry || headerLength > 0) {
+        throw new Error("is cut short, the TAR archive ends too early");
+      }
+    },
+  };
+};
@@ -0,0 +1,325 @@
+import {
+  ArchiveEntry,
+  ArchiveSink,
+  ArchiveWriteOptions,
+  createDeflater,
+  DEFAULT_COMPRESSION_LEVEL,
+  readChunks,
+} from "./archiveStream";
+
+// Sizes and offsets from here on need the ZIP64 extensions
+const ZIP64_LIMIT = 0xffffffff;
+// Leave room for DEFLATE making incompressible data a little bigger
+const ZIP64_SIZE_MARGIN = 0x10000;
+
+const FLAG_DATA_DESCRIPTOR = 0x0008;
+const FLAG_UTF8_NAME = 0x0800;
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const VERSION_DEFAULT = 20;
+const VERSION_ZIP64 = 45;
+// Extra field with the modification time in UTC seconds, as DOS times are
+// local and only precise to two seconds
+const EXTENDED_TIMESTAMP_ID = 0x5455;
+const EXTENDED_TIMESTAMP_LENGTH = 9;
+
+let crcTable: Uint32Array | null = null;
+
+const getCrcTable = () => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+};
+
+// Continue a CRC-32 checksum with more data, starting from 0
+export const updateCrc32 = (crc: number, data: Uint8Array): number => {
+  const table = getCrcTable();
+  let c = crc ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    c = table[(c ^ data[i]) & 0xff] ^ (c >>> 8);
+  }
+  return (c ^ 0xffffffff) >>> 0;
+};
+
+// Little-endian writer for the fixed-size records of the ZIP format
+const createRecord = (size: number) => {
+  const bytes = new Uint8Array(size);
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  const record = {
+    bytes,
+    uint8: (value: number) => {
+      view.setUint8(offset, value);
+      offset += 1;
+      return record;
+    },
+    uint16: (value: number) => {
+      view.setUint16(offset, value, true);
+      offset += 2;
+      return record;
+    },
+    uint32: (value: number) => {
+      view.setUint32(offset, value >>> 0, true);
+      offset += 4;
+      return record;
+    },
+    uint64: (value: number) => {
+      view.setUint32(offset, value % 0x100000000, true);
+      view.setUint32(offset + 4, Math.floor(value / 0x100000000), true);
+      offset += 8;
+      return record;
+    },
+    append: (data: Uint8Array) => {
+      bytes.set(data, offset);
+      offset += data.length;
+      return record;
+    },
+  };
+  return record;
+};
+
+// Dates in ZIP headers use the MS-DOS format, which starts in 1980
+const toDosDateTime = (timestamp: number) => {
+  const date = new Date(timestamp);
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 };
+  }
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    date:
+      ((date.getFullYear() - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+};
+
+interface CentralEntry {
+  name: Uint8Array;
+  method: number;
+  time: number;
+  date: number;
+  // Seconds since 1970
+  mtime: number;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+}
+
+// Write the extended timestamp field of a local or central header
+const writeTimestamp = (
+  record: ReturnType<typeof createRecord>,
+  mtime: number
+) =>
+  record
+    .uint16(EXTENDED_TIMESTAMP_ID)
+    .uint16(EXTENDED_TIMESTAMP_LENGTH - 4)
+    // Only the modification time is given
+    .uint8(1)
+    .uint32(mtime);
+
+// Write files into a ZIP archive under their new paths, streaming each one
+// through the sink instead of building the archive in memory. Level 0
+// stores files as they are. Archives over 4 GB or with more than 65535
+// files use ZIP64.
+export const writeZip = async (
+  entries: ArchiveEntry[],
+  sink: ArchiveSink,
+  {
+    level = DEFAULT_COMPRESSION_LEVEL,
+    onProgress,
+    onRead,
+    getExtraEntries,
+    signal,
+  }: ArchiveWriteOptions = {}
+): Promise<void> => {
+  const encoder = new TextEncoder();
+  let totalSize = entries.reduce((total, { file }) => total + file.size, 0);
+  const centralEntries: CentralEntry[] = [];
+  let processedSize = 0;
+  let offset = 0;
+
+  const write = async (chunk: Uint8Array) => {
+    await sink.write(chunk);
+    offset += chunk.length;
+  };
+
+  // Write the local header, data and descriptor of one file
+  const writeEntry = async ({ path, file }: ArchiveEntry, index: number) => {
+    const name = encoder.encode(path);
+    const method = level > 0 ? METHOD_DEFLATE : METHOD_STORE;
+    const { time, date } = toDosDateTime(file.lastModified);
+    const mtime = Math.min(
+      Math.max(Math.floor(file.lastModified / 1000), 0),
+      ZIP64_LIMIT
+    );
+    // Sizes are only known afterwards, so big files get ZIP64 up front
+    const zip64 = file.size >= ZIP64_LIMIT - ZIP64_SIZE_MARGIN;
+    const entry: CentralEntry = {
+      name,
+      method,
+      time,
+      date,
+      mtime,
+      crc: 0,
+      compressedSize: 0,
+      size: file.size,
+      offset,
+      zip64,
+    };
+
+    const extraLength = EXTENDED_TIMESTAMP_LENGTH + (zip64 ? 20 : 0);
+    const localHeader = createRecord(30 + name.length + extraLength)
+      .uint32(0x04034b50)
+      .uint16(zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+      .uint16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME)
+      .uint16(method)
+      .uint16(time)
+      .uint16(date)
+      .uint32(0)
+      .uint32(zip64 ? ZIP64_LIMIT : 0)
+      .uint32(zip64 ? ZIP64_LIMIT : 0)
+      .uint16(name.length)
+      .uint16(extraLength)
+      .append(name);
+    writeTimestamp(localHeader, mtime);
+    if (zip64) {
+      localHeader.uint16(0x0001).uint16(16).uint64(0).uint64(0);
+    }
+    await write(localHeader.bytes);
+
+    const dataStart = offset;
+    const readInput = (onChunk: (chunk: Uint8Array) => Promise<void>) =>
+      readChunks(
+        file,
+        async (chunk) => {
+          entry.crc = updateCrc32(entry.crc, chunk);
+          onRead?.(index, chunk);
+          await onChunk(chunk);
+          processedSize += chunk.length;
+          onProgress?.(processedSize, totalSize, centralEntries.length);
+        },
+        signal
+      );
+
+    if (method === METHOD_DEFLATE) {
+      const deflater = createDeflater({ write }, level, "raw");
+      await readInput(deflater.write);
+      await deflater.finish();
+    } else {
+      await readInput(write);
+    }
+    entry.compressedSize = offset - dataStart;
+
+    const descriptor = createRecord(zip64 ? 24 : 16)
+      .uint32(0x08074b50)
+      .uint32(entry.crc);
+    if (zip64) {
+      descriptor.uint64(entry.compressedSize).uint64(entry.size);
+    } else {
+      descriptor.uint32(entry.compressedSize).uint32(entry.size);
+    }
+    await write(descriptor.bytes);
+    centralEntries.push(entry);
+    onProgress?.(processedSize, totalSize, centralEntries.length);
+  };
+
+  for (let i = 0; i < entries.length; i++) {
+    await writeEntry(entries[i], i);
+  }
+  const extraEntries = getExtraEntries?.() || [];
+  extraEntries.forEach(({ file }) => {
+    totalSize += file.size;
+  });
+  for (let i = 0; i < extraEntries.length; i++) {
+    await writeEntry(extraEntries[i], entries.length + i);
+  }
+
+  const centralStart = offset;
+  for (const entry of centralEntries) {
+    // Fields that don't fit in 32 bits move to the ZIP64 extra field
+    const extraValues = [entry.size, entry.compressedSize, entry.offset].filter(
+      (value) => value >= ZIP64_LIMIT
+    );
+    const zip64Length = extraValues.length > 0 ? 4 + extraValues.length * 8 : 0;
+    const extraLength = EXTENDED_TIMESTAMP_LENGTH + zip64Length;
+    const header = createRecord(46 + entry.name.length + extraLength)
+      .uint32(0x02014b50)
+      .uint16(VERSION_ZIP64)
+      .uint16(entry.zip64 ? VERSION_ZIP64 : VERSION_DEFAULT)
+      .uint16(FLAG_DATA_DESCRIPTOR | FLAG_UTF8_NAME)
+      .uint16(entry.method)
+      .uint16(entry.time)
+      .uint16(entry.date)
+      .uint32(entry.crc)
+      .uint32(Math.min(entry.compressedSize, ZIP64_LIMIT))
+      .uint32(Math.min(entry.size, ZIP64_LIMIT))
+      .uint16(entry.name.length)
+      .uint16(extraLength)
+      .uint16(0)
+      .uint16(0)
+      .uint16(0)
+      .uint32(0)
+      .uint32(Math.min(entry.offset, ZIP64_LIMIT))
+      .append(entry.name);
+    writeTimestamp(header, entry.mtime);
+    if (zip64Length > 0) {
+      header.uint16(0x0001).uint16(extraValues.length * 8);
+      extraValues.forEach((value) => header.uint64(value));
+    }
+    await write(header.bytes);
+  }
+  const centralSize = offset - centralStart;
+
+  const count = centralEntries.length;
+  if (
+    count >= 0xffff ||
+    centralStart >= ZIP64_LIMIT ||
+    centralSize >= ZIP64_LIMIT
+  ) {
+    const zip64EndOffset = offset;
+    await write(
+      createRecord(56)
+        .uint32(0x06064b50)
+        .uint64(44)
+        .uint16(VERSION_ZIP64)
+        .uint16(VERSION_ZIP64)
+        .uint32(0)
+        .uint32(0)
+        .uint64(count)
+        .uint64(count)
+        .uint64(centralSize)
+        .uint64(centralStart).bytes
+    );
+    await write(
+      createRecord(20)
+        .uint32(0x07064b50)
+        .uint32(0)
+        .uint64(zip64EndOffset)
+        .uint32(1).bytes
+    );
+  }
+  await write(
+    createRecord(22)
+      .uint32(0x06054b50)
+      .uint16(0)
+      .uint16(0)
+      .uint16(Math.min(count, 0xffff))
+      .uint16(Math.min(count, 0xffff))
+      .uint32(Math.min(centralSize, ZIP64_LIMIT))
+      .uint32(Math.min(centralStart, ZIP64_LIMIT))
+      .uint16(0).bytes
+  );
+};
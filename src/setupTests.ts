@@ -0,0 +1,6 @@
+import { Blob } from "buffer";
+import { TextDecoder, TextEncoder } from "util";
+
+// jsdom's Blob can't be read back with arrayBuffer(), and it has no text
+// encoders, so the engine gets Node's
+Object.assign(globalThis, { Blob, TextDecoder, TextEncoder });
@@ -0,0 +1,40 @@
+// The parts of pako used by the archive writers, as the package ships no
+// type declarations
+declare module "pako" {
+  export interface DeflateOptions {
+    // 0 stores the data as it is, 9 compresses most
+    level?: number;
+    // Leave out the zlib header and checksum
+    raw?: boolean;
+    // Wrap the output in a gzip header and trailer
+    gzip?: boolean;
+    chunkSize?: number;
+  }
+
+  export class Deflate {
+    constructor(options?: DeflateOptions);
+    err: number;
+    msg: string;
+    // Returns false on errors. Pass true as the mode for the last part.
+    push(data: Uint8Array, mode: boolean): boolean;
+    // Called with each part of the output as it's produced
+    onData: (chunk: Uint8Array) => void;
+  }
+
+  export interface InflateOptions {
+    chunkSize?: number;
+  }
+
+  // Reads zlib and gzip data, telling them apart from the header
+  export class Inflate {
+    constructor(options?: InflateOptions);
+    err: number;
+    msg: string;
+    // Whether the end of the compressed data has been reached
+    ended: boolean;
+    // Header of gzip data, with the original file name and time in seconds
+    header: { name: string; time: number };
+    push(data: Uint8Array, mode: boolean): boolean;
+    onData: (chunk: Uint8Array) => void;
+  }
+}
@@ -0,0 +1,430 @@
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  track?: number;
+  year?: string;
+  genre?: string;
+}
+
+export type AudioTagName = keyof AudioTags;
+
+export const AUDIO_TAG_NAMES: AudioTagName[] = [
+  "artist",
+  "album",
+  "track",
+  "title",
+  "year",
+  "genre",
+];
+
+// The tags a well-organised music library is expected to have
+export const ESSENTIAL_AUDIO_TAGS: AudioTagName[] = [
+  "artist",
+  "album",
+  "track",
+  "title",
+];
+
+interface ReadableFile {
+  size: number;
+  slice: (start?: number, end?: number) => Blob;
+}
+
+// ID3v2 tags usually fit well within this, larger tags are read in full
+const HEADER_READ_LIMIT = 256 * 1024;
+
+// Standard ID3v1 genres, referenced by number in older tags
+const ID3_GENRES = [
+  "Blues",
+  "Classic Rock",
+  "Country",
+  "Dance",
+  "Disco",
+  "Funk",
+  "Grunge",
+  "Hip-Hop",
+  "Jazz",
+  "Metal",
+  "New Age",
+  "Oldies",
+  "Other",
+  "Pop",
+  "R&B",
+  "Rap",
+  "Reggae",
+  "Rock",
+  "Techno",
+  "Industrial",
+  "Alternative",
+  "Ska",
+  "Death Metal",
+  "Pranks",
+  "Soundtrack",
+  "Euro-Techno",
+  "Ambient",
+  "Trip-Hop",
+  "Vocal",
+  "Jazz+Funk",
+  "Fusion",
+  "Trance",
+  "Classical",
+  "Instrumental",
+  "Acid",
+  "House",
+  "Game",
+  "Sound Clip",
+  "Gospel",
+  "Noise",
+  "AlternRock",
+  "Bass",
+  "Soul",
+  "Punk",
+  "Space",
+  "Meditative",
+  "Instrumental Pop",
+  "Instrumental Rock",
+  "Ethnic",
+  "Gothic",
+  "Darkwave",
+  "Techno-Industrial",
+  "Electronic",
+  "Pop-Folk",
+  "Eurodance",
+  "Dream",
+  "Southern Rock",
+  "Comedy",
+  "Cult",
+  "Gangsta",
+  "Top 40",
+  "Christian Rap",
+  "Pop/Funk",
+  "Jungle",
+  "Native American",
+  "Cabaret",
+  "New Wave",
+  "Psychadelic",
+  "Rave",
+  "Showtunes",
+  "Trailer",
+  "Lo-Fi",
+  "Tribal",
+  "Acid Punk",
+  "Acid Jazz",
+  "Polka",
+  "Retro",
+  "Musical",
+  "Rock & Roll",
+  "Hard Rock",
+];
+
+const readBytes = async (file: ReadableFile, start: number, end: number) =>
+  new Uint8Array(await file.slice(start, end).arrayBuffer());
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const decode = (bytes: Uint8Array, encoding: string) =>
+  new TextDecoder(encoding).decode(bytes);
+
+// Remove padding and terminators, treating blank values as missing
+const clean = (value?: string) =>
+  value?.replace(/\0[\s\S]*$/, "").trim() || undefined;
+
+// Track numbers are often written as "3/12"
+const parseTrack = (value?: string) => {
+  const track = parseInt(value || "", 10);
+  return Number.isNaN(track) || track <= 0 ? undefined : track;
+};
+
+// Resolve "(17)", "17" and "(17)Rock" style genre references
+const parseGenre = (value?: string) => {
+  const genre = clean(value);
+  if (!genre) return undefined;
+  const match = genre.match(/^\((\d+)\)(.*)$/) || genre.match(/^(\d+)()$/);
+  if (!match) return genre;
+  return clean(match[2]) || ID3_GENRES[Number(match[1])] || genre;
+};
+
+const readSyncsafe = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] << 21) |
+  (bytes[offset + 1] << 14) |
+  (bytes[offset + 2] << 7) |
+  bytes[offset + 3];
+
+// Decode an ID3v2 text frame, whose first byte selects the encoding
+const decodeId3Text = (frame: Uint8Array) => {
+  const body = frame.subarray(1);
+  switch (frame[0]) {
+    case 1: {
+      // UTF-16 with a byte order mark
+      const bigEndian = body[0] === 0xfe && body[1] === 0xff;
+      const hasBom = bigEndian || (body[0] === 0xff && body[1] === 0xfe);
+      return decode(
+        hasBom ? body.subarray(2) : body,
+        bigEndian ? "utf-16be" : "utf-16le"
+      );
+    }
+    case 2:
+      return decode(body, "utf-16be");
+    case 3:
+      return decode(body, "utf-8");
+    default:
+      return decode(body, "iso-8859-1");
+  }
+};
+
+const ID3V2_FRAMES: { [frameId: string]: AudioTagName } = {
+  TIT2: "title",
+  TT2: "title",
+  TPE1: "artist",
+  TP1: "artist",
+  TALB: "album",
+  TAL: "album",
+  TRCK: "track",
+  TRK: "track",
+  TYER: "year",
+  TYE: "year",
+  TDRC: "year",
+  TCON: "genre",
+  TCO: "genre",
+};
+
+// Parse an ID3v2.2, v2.3 or v2.4 tag from the start of a file
+const parseId3v2 = (
+  bytes: Uint8Array
+): Partial<Record<AudioTagName, string>> => {
+  const values: Partial<Record<AudioTagName, string>> = {};
+  const version = bytes[3];
+  const flags = bytes[5];
+  const tagEnd = Math.min(10 + readSyncsafe(bytes, 6), bytes.length);
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+
+  let offset = 10;
+  // Skip the extended header if present
+  if (flags & 0x40 && version >= 3) {
+    offset +=
+      version === 4
+        ? readSyncsafe(bytes, offset)
+        : ((bytes[offset] << 24) |
+            (bytes[offset + 1] << 16) |
+            (bytes[offset + 2] << 8) |
+            bytes[offset + 3]) +
+          4;
+  }
+
+  while (offset + headerLength <= tagEnd) {
+    const frameId = readAscii(bytes, offset, idLength);
+    // Padding after the last frame is filled with zeros
+    if (!/^[A-Z0-9]+$/.test(frameId)) break;
+
+    let size: number;
+    if (version === 2) {
+      size =
+        (bytes[offset + 3] << 16) |
+        (bytes[offset + 4] << 8) |
+        bytes[offset + 5];
+    } else if (version === 4) {
+      size = readSyncsafe(bytes, offset + 4);
+    } else {
+      size =
+        ((bytes[offset + 4] << 24) |
+          (bytes[offset + 5] << 16) |
+          (bytes[offset + 6] << 8) |
+          bytes[offset + 7]) >>>
+        0;
+    }
+
+    const frameStart = offset + headerLength;
+    if (size <= 0 || frameStart + size > tagEnd) break;
+
+    const tagName = ID3V2_FRAMES[frameId];
+    if (tagName && !values[tagName]) {
+      values[tagName] = decodeId3Text(
+        bytes.subarray(frameStart, frameStart + size)
+      );
+    }
+    offset = frameStart + size;
+  }
+
+  return values;
+};
+
+// Parse the fixed 128 byte ID3v1 tag found at the end of MP3 files
+const parseId3v1 = (
+  bytes: Uint8Array
+): Partial<Record<AudioTagName, string>> => {
+  if (bytes.length < 128 || readAscii(bytes, 0, 3) !== "TAG") return {};
+  const text = (start: number, length: number) =>
+    decode(bytes.subarray(start, start + length), "iso-8859-1");
+  // ID3v1.1 stores the track in the last byte of the comment field
+  const hasTrack = bytes[125] === 0 && bytes[126] !== 0;
+  return {
+    title: text(3, 30),
+    artist: text(33, 30),
+    album: text(63, 30),
+    year: text(93, 4),
+    track: hasTrack ? bytes[126].toString() : undefined,
+    genre: ID3_GENRES[bytes[127]],
+  };
+};
+
+const RIFF_INFO_CHUNKS: { [chunkId: string]: AudioTagName } = {
+  INAM: "title",
+  IART: "artist",
+  IPRD: "album",
+  ITRK: "track",
+  IPRT: "track",
+  ICRD: "year",
+  IGNR: "genre",
+};
+
+// Walk the chunks of a WAV file looking for the LIST/INFO chunk, which is
+// often stored after the audio data
+const readRiffInfo = async (
+  file: ReadableFile
+): Promise<Partial<Record<AudioTagName, string>>> => {
+  const values: Partial<Record<AudioTagName, string>> = {};
+  let offset = 12;
+
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, offset + 12);
+    const view = new DataView(header.buffer);
+    const chunkId = readAscii(header, 0, 4);
+    const chunkSize = view.getUint32(4, true);
+
+    if (chunkId === "LIST" && readAscii(header, 8, 4) === "INFO") {
+      const chunk = await readBytes(file, offset + 12, offset + 8 + chunkSize);
+      const chunkView = new DataView(chunk.buffer);
+      let position = 0;
+      while (position + 8 <= chunk.length) {
+        const id = readAscii(chunk, position, 4);
+        const size = chunkView.getUint32(position + 4, true);
+        const tagName = RIFF_INFO_CHUNKS[id];
+        if (tagName && !values[tagName]) {
+          values[tagName] = decode(
+            chunk.subarray(position + 8, position + 8 + size),
+            "utf-8"
+          );
+        }
+        // Chunks are padded to an even number of bytes
+        position += 8 + size + (size % 2);
+      }
+      break;
+    }
+
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+
+  return values;
+};
+
+const VORBIS_COMMENTS: { [key: string]: AudioTagName } = {
+  TITLE: "title",
+  ARTIST: "artist",
+  ALBUM: "album",
+  TRACKNUMBER: "track",
+  DATE: "year",
+  GENRE: "genre",
+};
+
+// Walk the metadata blocks of a FLAC file to find its Vorbis comments
+const readFlacComments = async (
+  file: ReadableFile
+): Promise<Partial<Record<AudioTagName, string>>> => {
+  const values: Partial<Record<AudioTagName, string>> = {};
+  let offset = 4;
+
+  while (offset + 4 <= file.size) {
+    const header = await readBytes(file, offset, offset + 4);
+    const isLast = (header[0] & 0x80) !== 0;
+    const blockType = header[0] & 0x7f;
+    const length = (header[1] << 16) | (header[2] << 8) | header[3];
+
+    if (blockType === 4) {
+      const block = await readBytes(file, offset + 4, offset + 4 + length);
+      const view = new DataView(block.buffer);
+      let position = 4 + view.getUint32(0, true); // Skip the vendor string
+      const count = view.getUint32(position, true);
+      position += 4;
+      for (let i = 0; i < count && position + 4 <= block.length; i++) {
+        const size = view.getUint32(position, true);
+        const comment = decode(
+          block.subarray(position + 4, position + 4 + size),
+          "utf-8"
+        );
+        const separator = comment.indexOf("=");
+        const tagName =
+          VORBIS_COMMENTS[comment.slice(0, separator).toUpperCase()];
+        if (separator > 0 && tagName && !values[tagName]) {
+          values[tagName] = comment.slice(separator + 1);
+        }
+        position += 4 + size;
+      }
+      break;
+    }
+
+    if (isLast) break;
+    offset += 4 + length;
+  }
+
+  return values;
+};
+
+const toAudioTags = (
+  values: Partial<Record<AudioTagName, string>>
+): AudioTags | null => {
+  const tags: AudioTags = {
+    title: clean(values.title),
+    artist: clean(values.artist),
+    album: clean(values.album),
+    track: parseTrack(values.track),
+    year: clean(values.year)?.slice(0, 4),
+    genre: parseGenre(values.genre),
+  };
+  return AUDIO_TAG_NAMES.some((name) => tags[name] !== undefined) ? tags : null;
+};
+
+// Read ID3v1/v2 tags (MP3), Vorbis comments (FLAC) or RIFF INFO (WAV)
+export const readAudioTags = async (
+  file: ReadableFile
+): Promise<AudioTags | null> => {
+  try {
+    let head = await readBytes(file, 0, HEADER_READ_LIMIT);
+    const signature = readAscii(head, 0, 4);
+
+    if (signature === "fLaC") {
+      return toAudioTags(await readFlacComments(file));
+    }
+
+    if (signature === "RIFF" && readAscii(head, 8, 4) === "WAVE") {
+      return toAudioTags(await readRiffInfo(file));
+    }
+
+    if (readAscii(head, 0, 3) === "ID3") {
+      const tagSize = 10 + readSyncsafe(head, 6);
+      if (tagSize > head.length) {
+        head = await readBytes(file, 0, tagSize);
+      }
+      const tags = toAudioTags(parseId3v2(head));
+      if (tags) return tags;
+    }
+
+    if (file.size >= 128) {
+      return toAudioTags(
+        parseId3v1(await readBytes(file, file.size - 128, file.size))
+      );
+    }
+    return null;
+  } catch (err) {
+    console.error("Failed to read audio tags:", err);
+    return null;
+  }
+};
+
+// List the requested tags a file is missing
+export const getMissingAudioTags = (
+  tags: AudioTags | null | undefined,
+  names: AudioTagName[] = ESSENTIAL_AUDIO_TAGS
+): AudioTagName[] => names.filter((name) => tags?.[name] === undefined);
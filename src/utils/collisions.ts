@@ -0,0 +1,90 @@
+import { joinPath, splitFileName, withExtension } from "./fileNames";
+
+export type CollisionPolicy = "suffix" | "skip" | "error";
+
+export const COLLISION_POLICY_LABELS: { [policy in CollisionPolicy]: string } =
+  {
+    suffix: "Add suffix",
+    skip: "Skip duplicates",
+    error: "Block with error",
+  };
+
+export interface NameRequest {
+  id: string;
+  // Folder the name will live in, empty for a flat list
+  folder: string;
+  name: string;
+}
+
+export interface CollisionResolution {
+  // Final names by file id, skipped files are left out
+  names: Map<string, string>;
+  skipped: Set<string>;
+  // Conflicting path for every file involved in a clash
+  conflicts: Map<string, string>;
+}
+
+// Add a " (2)" style counter before the extension of a name
+export const addNameSuffix = (name: string, counter: number): string => {
+  const { stem, extension } = splitFileName(name);
+  return withExtension(`${stem} (${counter})`, extension);
+};
+
+// Detect names that would overwrite each other and resolve them using the
+// given policy. The first file to claim a name always keeps it. Paths with
+// the same key count as the same name, e.g. to ignore letter case.
+export const resolveCollisions = (
+  requests: NameRequest[],
+  policy: CollisionPolicy,
+  getKey: (path: string) => string = (path) => path
+): CollisionResolution => {
+  const names = new Map<string, string>();
+  const skipped = new Set<string>();
+  const conflicts = new Map<string, string>();
+
+  const counts = new Map<string, number>();
+  requests.forEach(({ folder, name }) => {
+    const key = getKey(joinPath(folder, name));
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+
+  // Every requested path is reserved so suffixes never create new clashes
+  const taken = new Set(counts.keys());
+  const claimed = new Set<string>();
+
+  requests.forEach(({ id, folder, name }) => {
+    const path = joinPath(folder, name);
+    const key = getKey(path);
+    if ((counts.get(key) || 0) > 1) {
+      conflicts.set(id, path);
+    }
+
+    if (!claimed.has(key)) {
+      claimed.add(key);
+      names.set(id, name);
+      return;
+    }
+
+    if (policy === "skip") {
+      skipped.add(id);
+      return;
+    }
+
+    if (policy === "suffix") {
+      let counter = 2;
+      while (
+        taken.has(getKey(joinPath(folder, addNameSuffix(name, counter))))
+      ) {
+        counter++;
+      }
+      const suffixed = addNameSuffix(name, counter);
+      taken.add(getKey(joinPath(folder, suffixed)));
+      names.set(id, suffixed);
+      return;
+    }
+
+    names.set(id, name);
+  });
+
+  return { names, skipped, conflicts };
+};
@@ -0,0 +1,57 @@
+import { parseCsv, toCsvValue } from "./csv";
+
+describe("toCsvValue", () => {
+  test("leaves plain values as they are", () => {
+    expect(toCsvValue("IMG_0001.jpg")).toBe("IMG_0001.jpg");
+    expect(toCsvValue(42)).toBe("42");
+    expect(toCsvValue(undefined)).toBe("");
+  });
+
+  test("quotes separators, quotes and line breaks", () => {
+    expect(toCsvValue("a,b")).toBe('"a,b"');
+    expect(toCsvValue("a;b")).toBe('"a;b"');
+    expect(toCsvValue("a\tb")).toBe('"a\tb"');
+    expect(toCsvValue('say "hi".txt')).toBe('"say ""hi"".txt"');
+    expect(toCsvValue("two\r\nlines")).toBe('"two\r\nlines"');
+  });
+});
+
+describe("parseCsv", () => {
+  test("reads quoted values with separators, quotes and line breaks", () => {
+    expect(
+      parseCsv('from,to\r\n"a,b.jpg","say ""hi"".jpg"\n"two\nlines",x\n')
+    ).toEqual([
+      ["from", "to"],
+      ["a,b.jpg", 'say "hi".jpg'],
+      ["two\nlines", "x"],
+    ]);
+  });
+
+  test("detects semicolon and tab separators from the first line", () => {
+    expect(parseCsv("old;new\na,1;b")).toEqual([
+      ["old", "new"],
+      ["a,1", "b"],
+    ]);
+    expect(parseCsv("old\tnew\na;b\tc")).toEqual([
+      ["old", "new"],
+      ["a;b", "c"],
+    ]);
+  });
+
+  test("skips blank lines and keeps empty values", () => {
+    expect(parseCsv("a,,c\n\n , \n,b,")).toEqual([
+      ["a", "", "c"],
+      ["", "b", ""],
+    ]);
+  });
+
+  test("reads back what toCsvValue writes", () => {
+    const rows = [
+      ["name", "note"],
+      ['"quoted"', "a,b;c\td"],
+      ["line\r\nbreak", ""],
+    ];
+    const text = rows.map((row) => row.map(toCsvValue).join(",")).join("\r\n");
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
@@ -0,0 +1,60 @@
+// Separators spreadsheets use when saving CSV, depending on the locale
+const DELIMITERS = [",", ";", "\t"];
+
+// Quote a CSV value when it holds a separator, quote or line break
+export const toCsvValue = (value: string | number | undefined): string => {
+  const text = value === undefined ? "" : String(value);
+  return /[",;\t\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Pick the separator that splits the first line into the most columns
+const detectDelimiter = (text: string) => {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const counts = DELIMITERS.map(
+    (delimiter) => firstLine.split(delimiter).length
+  );
+  return DELIMITERS[counts.indexOf(Math.max(...counts))];
+};
+
+// Split CSV text into rows of values. Quoted values can hold separators,
+// doubled quotes and line breaks. Blank lines are skipped.
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let value = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(value);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    value = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      value += char;
+    }
+  }
+  endRow();
+  return rows;
+};
@@ -0,0 +1,210 @@
+export interface ExifData {
+  // DateTimeOriginal as a local timestamp
+  dateTaken?: number;
+  make?: string;
+  model?: string;
+  lens?: string;
+  hasGps: boolean;
+}
+
+// Only the start of the file is needed to find the EXIF block
+const EXIF_READ_LIMIT = 256 * 1024;
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+const TAG_LENS_MAKE = 0xa433;
+const TAG_LENS_MODEL = 0xa434;
+
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+interface IfdEntry {
+  type: number;
+  count: number;
+  valueOffset: number;
+}
+
+// Read the entries of a TIFF image file directory, keyed by tag
+const readIfd = (
+  view: DataView,
+  tiffStart: number,
+  offset: number,
+  littleEndian: boolean
+): Map<number, IfdEntry> => {
+  const entries = new Map<number, IfdEntry>();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entryOffset = start + 2 + i * 12;
+    if (entryOffset + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entryOffset, littleEndian), {
+      type: view.getUint16(entryOffset + 2, littleEndian),
+      count: view.getUint32(entryOffset + 4, littleEndian),
+      valueOffset: entryOffset + 8,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (
+  view: DataView,
+  tiffStart: number,
+  entry: IfdEntry | undefined,
+  littleEndian: boolean
+): string | undefined => {
+  if (!entry || entry.type !== TYPE_ASCII) return undefined;
+  // Values longer than four bytes are stored at an offset
+  const start =
+    entry.count > 4
+      ? tiffStart + view.getUint32(entry.valueOffset, littleEndian)
+      : entry.valueOffset;
+  if (start + entry.count > view.byteLength) return undefined;
+
+  let value = "";
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    value += String.fromCharCode(code);
+  }
+  return value.trim() || undefined;
+};
+
+const readPointer = (
+  view: DataView,
+  entry: IfdEntry | undefined,
+  littleEndian: boolean
+): number | undefined =>
+  entry && entry.type === TYPE_LONG
+    ? view.getUint32(entry.valueOffset, littleEndian)
+    : undefined;
+
+// EXIF dates look like "2024:05:17 14:03:22" and have no time zone
+const parseExifDate = (value?: string): number | undefined => {
+  const match = value?.match(
+    /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/
+  );
+  if (!match) return undefined;
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1)
+    .map(Number);
+  if (!year) return undefined;
+  return new Date(year, month - 1, day, hours, minutes, seconds).getTime();
+};
+
+// Parse a TIFF structure starting at the given offset
+const parseTiff = (view: DataView, tiffStart: number): ExifData | null => {
+  if (tiffStart + 8 > view.byteLength) return null;
+
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const littleEndian = byteOrder === 0x4949;
+  if (view.getUint16(tiffStart + 2, littleEndian) !== 42) return null;
+
+  const ifd0 = readIfd(
+    view,
+    tiffStart,
+    view.getUint32(tiffStart + 4, littleEndian),
+    littleEndian
+  );
+
+  const exifOffset = readPointer(view, ifd0.get(TAG_EXIF_IFD), littleEndian);
+  const exifIfd =
+    exifOffset !== undefined
+      ? readIfd(view, tiffStart, exifOffset, littleEndian)
+      : new Map<number, IfdEntry>();
+
+  const gpsOffset = readPointer(view, ifd0.get(TAG_GPS_IFD), littleEndian);
+  const gpsIfd =
+    gpsOffset !== undefined
+      ? readIfd(view, tiffStart, gpsOffset, littleEndian)
+      : new Map<number, IfdEntry>();
+
+  const lensMake = readAscii(
+    view,
+    tiffStart,
+    exifIfd.get(TAG_LENS_MAKE),
+    littleEndian
+  );
+  const lensModel = readAscii(
+    view,
+    tiffStart,
+    exifIfd.get(TAG_LENS_MODEL),
+    littleEndian
+  );
+
+  return {
+    dateTaken: parseExifDate(
+      readAscii(
+        view,
+        tiffStart,
+        exifIfd.get(TAG_DATE_TIME_ORIGINAL),
+        littleEndian
+      )
+    ),
+    make: readAscii(view, tiffStart, ifd0.get(TAG_MAKE), littleEndian),
+    model: readAscii(view, tiffStart, ifd0.get(TAG_MODEL), littleEndian),
+    lens:
+      lensModel && lensMake && !lensModel.startsWith(lensMake)
+        ? `${lensMake} ${lensModel}`
+        : lensModel,
+    // A GPS directory only counts if it holds a latitude (tag 2)
+    hasGps: gpsIfd.has(0x0002),
+  };
+};
+
+// Parse EXIF metadata from the bytes of a JPEG or TIFF image
+export const parseExif = (buffer: ArrayBuffer): ExifData | null => {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4) return null;
+
+  // TIFF files (and many RAW formats) are a TIFF structure themselves
+  const start = view.getUint16(0);
+  if (start === 0x4949 || start === 0x4d4d) {
+    return parseTiff(view, 0);
+  }
+
+  if (start !== 0xffd8) return null;
+
+  // Walk the JPEG segments looking for the APP1 "Exif" block
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null;
+    const marker = view.getUint8(offset + 1);
+    // Start of scan means image data follows, no more metadata
+    if (marker === 0xda) return null;
+    const length = view.getUint16(offset + 2);
+
+    if (
+      marker === 0xe1 &&
+      offset + 10 <= view.byteLength &&
+      view.getUint32(offset + 4) === 0x45786966 && // "Exif"
+      view.getUint16(offset + 8) === 0
+    ) {
+      return parseTiff(view, offset + 10);
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+// Check whether a file type can carry EXIF metadata we know how to read
+export const supportsExif = (type: string) =>
+  type === "image/jpeg" || type === "image/jpg" || type === "image/tiff";
+
+// Read EXIF metadata from the start of a file
+export const readExif = async (file: {
+  slice: (start?: number, end?: number) => Blob;
+}): Promise<ExifData | null> => {
+  try {
+    const buffer = await file.slice(0, EXIF_READ_LIMIT).arrayBuffer();
+    return parseExif(buffer);
+  } catch (err) {
+    console.error("Failed to read EXIF data:", err);
+    return null;
+  }
+};
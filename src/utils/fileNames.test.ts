@@ -0,0 +1,63 @@
+import {
+  normalizeRelativePath,
+  splitFileName,
+  transformExtension,
+} from "./fileNames";
+
+const options = {
+  lowercaseExtensions: false,
+  normalizeExtensionAliases: true,
+  replacementExtension: "",
+};
+
+describe("splitFileName", () => {
+  test("keeps compound extensions together", () => {
+    expect(splitFileName("backup.2026.tar.gz")).toEqual({
+      stem: "backup.2026",
+      extension: "tar.gz",
+    });
+    expect(splitFileName(".gitignore")).toEqual({
+      stem: ".gitignore",
+      extension: "",
+    });
+  });
+});
+
+describe("transformExtension", () => {
+  test("normalises aliases, keeping upper case", () => {
+    expect(transformExtension("IMG_0001.JPEG", options)).toBe("IMG_0001.JPG");
+    expect(transformExtension("page.htm", options)).toBe("page.html");
+  });
+
+  test("leaves extensions named after Object properties alone", () => {
+    expect(transformExtension("file.constructor", options)).toBe(
+      "file.constructor"
+    );
+  });
+
+  test("lowercases or replaces the extension", () => {
+    expect(
+      transformExtension("IMG.JPEG", { ...options, lowercaseExtensions: true })
+    ).toBe("IMG.jpg");
+    expect(
+      transformExtension("notes.txt", {
+        ...options,
+        replacementExtension: ".md",
+      })
+    ).toBe("notes.md");
+  });
+});
+
+describe("normalizeRelativePath", () => {
+  test("drops leading slashes and dots", () => {
+    expect(normalizeRelativePath("/photos/a.jpg")).toBe("photos/a.jpg");
+    expect(normalizeRelativePath("./photos\\a.jpg")).toBe("photos/a.jpg");
+    expect(normalizeRelativePath(undefined)).toBeUndefined();
+  });
+
+  test("keeps paths from archives inside their folder", () => {
+    expect(normalizeRelativePath("../../etc/x")).toBe("etc/x");
+    expect(normalizeRelativePath("a/./b//../c.txt")).toBe("a/b/c.txt");
+    expect(normalizeRelativePath("..")).toBeUndefined();
+  });
+});
@@ -0,0 +1,130 @@
+// Characters that are not allowed in file names on common platforms
+const INVALID_FILENAME_CHARS = /[<>:"/\\|?*]/g;
+
+// Remove any characters that could cause issues in filenames
+export const sanitizeFileName = (value: string): string =>
+  value.replace(INVALID_FILENAME_CHARS, "");
+
+// Extensions made of two parts that belong together
+const COMPOUND_EXTENSIONS = [
+  "tar.gz",
+  "tar.bz2",
+  "tar.xz",
+  "tar.zst",
+  "tar.lz",
+];
+
+// Common spellings of an extension and the one to use instead
+export const EXTENSION_ALIASES: { [extension: string]: string } = {
+  jpeg: "jpg",
+  jpe: "jpg",
+  tif: "tiff",
+  htm: "html",
+  mpeg: "mpg",
+  yml: "yaml",
+};
+
+// Split a file name into its stem and extension (without the dot). Names
+// without a dot and dotfiles like ".gitignore" have no extension.
+export const splitFileName = (
+  fileName: string
+): { stem: string; extension: string } => {
+  const lowerName = fileName.toLowerCase();
+  const compound = COMPOUND_EXTENSIONS.find(
+    (extension) =>
+      lowerName.endsWith(`.${extension}`) &&
+      lowerName.length > extension.length + 1
+  );
+  const dotIndex = compound
+    ? fileName.length - compound.length - 1
+    : fileName.lastIndexOf(".");
+
+  // A leading dot marks a hidden file, a trailing one has nothing after it
+  if (dotIndex <= 0 || dotIndex === fileName.length - 1) {
+    return { stem: fileName, extension: "" };
+  }
+  return {
+    stem: fileName.slice(0, dotIndex),
+    extension: fileName.slice(dotIndex + 1),
+  };
+};
+
+// Get the extension of a file name (without the dot)
+export const getExtension = (fileName: string): string =>
+  splitFileName(fileName).extension;
+
+// Get a file name without its extension
+export const getNameWithoutExtension = (fileName: string): string =>
+  splitFileName(fileName).stem;
+
+// Join a stem and an extension, leaving out the dot when there is none
+export const withExtension = (stem: string, extension: string): string =>
+  extension ? `${stem}.${extension}` : stem;
+
+export interface ExtensionOptions {
+  lowercaseExtensions: boolean;
+  normalizeExtensionAliases: boolean;
+  // Extension to use for every file instead, empty to keep the original
+  replacementExtension: string;
+}
+
+// Rewrite the extension of a name following the output options
+export const transformExtension = (
+  fileName: string,
+  {
+    lowercaseExtensions,
+    normalizeExtensionAliases,
+    replacementExtension,
+  }: ExtensionOptions
+): string => {
+  const { stem, extension } = splitFileName(fileName);
+  const replacement = sanitizeFileName(replacementExtension)
+    .trim()
+    .replace(/^\.+/, "");
+  if (replacement) {
+    return withExtension(stem, replacement);
+  }
+
+  let result = extension;
+  const key = extension.toLowerCase();
+  const alias = Object.prototype.hasOwnProperty.call(EXTENSION_ALIASES, key)
+    ? EXTENSION_ALIASES[key]
+    : undefined;
+  if (normalizeExtensionAliases && alias) {
+    // Keep the case of names like "IMG_0001.JPEG"
+    result =
+      extension === extension.toUpperCase() ? alias.toUpperCase() : alias;
+  }
+  if (lowercaseExtensions) {
+    result = result.toLowerCase();
+  }
+  return withExtension(stem, result);
+};
+
+// Turn "/folder/file.jpg" or "./folder/file.jpg" into "folder/file.jpg".
+// Empty, "." and ".." segments are dropped, so paths taken from archives
+// can't point outside the folder they end up in.
+export const normalizeRelativePath = (path?: string): string | undefined =>
+  path
+    ?.replace(/\\/g, "/")
+    .split("/")
+    .filter((segment) => segment && segment !== "." && segment !== "..")
+    .join("/") || undefined;
+
+// Get the folder part of a relative path, e.g. "photos/2024"
+export const getFolderPath = (relativePath?: string): string => {
+  if (!relativePath) return "";
+  const separator = relativePath.lastIndexOf("/");
+  return separator === -1 ? "" : relativePath.slice(0, separator);
+};
+
+// Join a folder and a file name into a relative path
+export const joinPath = (folder: string, fileName: string): string =>
+  folder ? `${folder}/${fileName}` : fileName;
+
+// Get the name of the folder a file lives in, based on its relative path
+export const getParentFolder = (relativePath?: string): string => {
+  if (!relativePath) return "";
+  const segments = relativePath.split("/").filter(Boolean);
+  return segments.length > 1 ? segments[segments.length - 2] : "";
+};
@@ -0,0 +1,66 @@
+interface Identifiable {
+  id: string;
+}
+
+export interface FileChange<T> {
+  id: string;
+  before: Partial<T>;
+  after: Partial<T>;
+}
+
+// An undoable change to the file list. Operations record what changed
+// rather than a snapshot, so files added in between are left alone.
+export type FileOperation<T extends Identifiable> =
+  | {
+      kind: "update";
+      batchId: string;
+      label: string;
+      changes: FileChange<T>[];
+    }
+  | {
+      kind: "remove";
+      batchId: string;
+      label: string;
+      removed: { item: T; index: number }[];
+    };
+
+const applyChanges = <T extends Identifiable>(
+  items: T[],
+  changes: FileChange<T>[],
+  direction: "before" | "after"
+): T[] => {
+  const changesById = new Map(changes.map((change) => [change.id, change]));
+  return items.map((item) => {
+    const change = changesById.get(item.id);
+    return change ? { ...item, ...change[direction] } : item;
+  });
+};
+
+// Apply an operation to a list (also used to perform it the first time)
+export const redoOperation = <T extends Identifiable>(
+  items: T[],
+  operation: FileOperation<T>
+): T[] => {
+  if (operation.kind === "update") {
+    return applyChanges(items, operation.changes, "after");
+  }
+  const removedIds = new Set(operation.removed.map(({ item }) => item.id));
+  return items.filter((item) => !removedIds.has(item.id));
+};
+
+// Reverse an operation, putting removed items back where they were
+export const undoOperation = <T extends Identifiable>(
+  items: T[],
+  operation: FileOperation<T>
+): T[] => {
+  if (operation.kind === "update") {
+    return applyChanges(items, operation.changes, "before");
+  }
+  const restored = [...items];
+  [...operation.removed]
+    .sort((a, b) => a.index - b.index)
+    .forEach(({ item, index }) => {
+      restored.splice(Math.min(index, restored.length), 0, item);
+    });
+  return restored;
+};
@@ -0,0 +1,72 @@
+import {
+  extensionMatchesSignature,
+  FileSignature,
+  sniffFileSignature,
+} from "./fileSignatures";
+
+// The start of a ZIP archive whose first entries have the given names
+const createZipHead = (...names: string[]) =>
+  new Uint8Array(
+    Array.from(
+      names.map((name) => `PK\x03\x04${"\0".repeat(26)}${name}`).join("")
+    ).map((char) => char.charCodeAt(0))
+  );
+
+describe("sniffFileSignature", () => {
+  test("detects common formats from their first bytes", () => {
+    expect(
+      sniffFileSignature(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))?.mime
+    ).toBe("image/jpeg");
+    expect(
+      sniffFileSignature(new TextEncoder().encode("%PDF-1.7\n"))?.extensions
+    ).toEqual(["pdf"]);
+    expect(sniffFileSignature(new Uint8Array([1, 2, 3]))).toBeNull();
+  });
+
+  test("only treats complete MPEG frame headers as audio", () => {
+    expect(
+      sniffFileSignature(new Uint8Array([0xff, 0xfb, 0x90, 0x64]))?.mime
+    ).toBe("audio/mpeg");
+    expect(
+      sniffFileSignature(new Uint8Array([0xff, 0xf1, 0x50, 0x80]))?.mime
+    ).toBe("audio/aac");
+    // Bitrate index 0xF is reserved
+    expect(
+      sniffFileSignature(new Uint8Array([0xff, 0xfb, 0xf0, 0x64]))
+    ).toBeNull();
+  });
+
+  test("leaves text with a byte order mark to its name", () => {
+    const utf16Text = new Uint8Array([0xff, 0xfe, 0x68, 0x00, 0x69, 0x00]);
+    expect(sniffFileSignature(utf16Text)).toBeNull();
+    expect(
+      sniffFileSignature(new Uint8Array([0xfe, 0xff, 0x00, 0x68, 0x00, 0x69]))
+    ).toBeNull();
+    expect(
+      sniffFileSignature(new TextEncoder().encode("\ufeffname,size\n"))
+    ).toBeNull();
+  });
+
+  test("tells Office documents apart from other ZIP archives", () => {
+    expect(
+      sniffFileSignature(
+        createZipHead("[Content_Types].xml", "word/document.xml")
+      )?.extensions
+    ).toEqual(["docx"]);
+    expect(sniffFileSignature(createZipHead("photo.jpg"))?.extensions[0]).toBe(
+      "zip"
+    );
+  });
+
+  test("keeps Office extensions when the entries that show them aren't read", () => {
+    const fileSignature = sniffFileSignature(
+      createZipHead("[Content_Types].xml", "_rels/.rels", "docProps/app.xml")
+    ) as FileSignature;
+    expect(fileSignature.mime).toBe("application/zip");
+    expect(
+      ["docx", "XLSX", "pptx", "odt", "epub", "zip", "jpg"].map((extension) =>
+        extensionMatchesSignature(extension, fileSignature)
+      )
+    ).toEqual([true, true, true, true, true, true, false]);
+  });
+});
@@ -0,0 +1,235 @@
+// What a file's first bytes say it is, whatever its name claims
+export interface FileSignature {
+  mime: string;
+  // Extensions that fit the content, the usual one first
+  extensions: string[];
+}
+
+// Enough to see the first few entries of a ZIP archive
+export const SIGNATURE_READ_LIMIT = 4096;
+
+const signature = (mime: string, ...extensions: string[]): FileSignature => ({
+  mime,
+  extensions,
+});
+
+const readAscii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+
+const startsWith = (bytes: Uint8Array, values: number[], offset = 0) =>
+  values.every((value, index) => bytes[offset + index] === value);
+
+// ISO base media files (MP4, MOV, HEIC...) name their flavour in the ftyp box
+const sniffIsoMedia = (brand: string): FileSignature => {
+  switch (brand.trim()) {
+    case "heic":
+    case "heix":
+    case "hevc":
+    case "hevx":
+    case "mif1":
+    case "msf1":
+      return signature("image/heic", "heic", "heif");
+    case "avif":
+    case "avis":
+      return signature("image/avif", "avif");
+    case "qt":
+      return signature("video/quicktime", "mov");
+    case "M4A":
+    case "M4B":
+      return signature("audio/x-m4a", "m4a", "m4b");
+    case "M4V":
+      return signature("video/x-m4v", "m4v", "mp4");
+    case "3gp4":
+    case "3gp5":
+    case "3gp6":
+      return signature("video/3gpp", "3gp");
+    default:
+      return signature("video/mp4", "mp4", "m4v");
+  }
+};
+
+// Formats stored in ZIP archives. The entries that give them away can come
+// after the part of the file that is read, so a ZIP file named with one of
+// these extensions keeps it.
+const ZIP_CONTAINER_EXTENSIONS = [
+  "docx",
+  "docm",
+  "dotx",
+  "xlsx",
+  "xlsm",
+  "xltx",
+  "pptx",
+  "pptm",
+  "potx",
+  "ppsx",
+  "odt",
+  "ott",
+  "ods",
+  "ots",
+  "odp",
+  "otp",
+  "odg",
+  "epub",
+];
+
+// ZIP archives are also the container for Office documents and EPUBs,
+// which can be told apart by the names of the first entries
+const sniffZip = (bytes: Uint8Array): FileSignature => {
+  const head = readAscii(bytes, 0, bytes.length);
+  if (head.includes("mimetypeapplication/epub+zip")) {
+    return signature("application/epub+zip", "epub");
+  }
+  if (head.includes("mimetypeapplication/vnd.oasis.opendocument.text")) {
+    return signature("application/vnd.oasis.opendocument.text", "odt");
+  }
+  if (head.includes("word/")) {
+    return signature(
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "docx"
+    );
+  }
+  if (head.includes("xl/")) {
+    return signature(
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+      "xlsx"
+    );
+  }
+  if (head.includes("ppt/")) {
+    return signature(
+      "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+      "pptx"
+    );
+  }
+  return signature("application/zip", "zip", ...ZIP_CONTAINER_EXTENSIONS);
+};
+
+// Text that starts with a UTF-8 or UTF-16 byte order mark. FF FE would
+// otherwise pass for an MPEG frame sync.
+const hasByteOrderMark = (bytes: Uint8Array) =>
+  startsWith(bytes, [0xef, 0xbb, 0xbf]) ||
+  startsWith(bytes, [0xff, 0xfe]) ||
+  startsWith(bytes, [0xfe, 0xff]);
+
+// MPEG audio frame header: frame sync, then no reserved version, layer,
+// bitrate or sample rate
+const isMpegFrame = (bytes: Uint8Array) =>
+  bytes.length >= 4 &&
+  bytes[0] === 0xff &&
+  (bytes[1] & 0xe0) === 0xe0 &&
+  ((bytes[1] >> 3) & 0x03) !== 1 &&
+  ((bytes[1] >> 1) & 0x03) !== 0 &&
+  bytes[2] >> 4 !== 0x0f &&
+  ((bytes[2] >> 2) & 0x03) !== 3;
+
+// AAC in ADTS frames: 12 sync bits, layer 0 and a known sample rate
+const isAdtsFrame = (bytes: Uint8Array) =>
+  bytes.length >= 4 &&
+  bytes[0] === 0xff &&
+  (bytes[1] & 0xf6) === 0xf0 &&
+  ((bytes[2] >> 2) & 0x0f) < 13;
+
+// Detect the type of a file from its first bytes, or null if unknown
+export const sniffFileSignature = (bytes: Uint8Array): FileSignature | null => {
+  // Plain text; its name says best what it holds
+  if (hasByteOrderMark(bytes)) {
+    return null;
+  }
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) {
+    return signature("image/jpeg", "jpg", "jpeg");
+  }
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return signature("image/png", "png");
+  }
+  const head = readAscii(bytes, 0, 12);
+  if (head.startsWith("GIF87a") || head.startsWith("GIF89a")) {
+    return signature("image/gif", "gif");
+  }
+  if (head.startsWith("RIFF")) {
+    switch (head.slice(8, 12)) {
+      case "WEBP":
+        return signature("image/webp", "webp");
+      case "WAVE":
+        return signature("audio/wav", "wav");
+      case "AVI ":
+        return signature("video/x-msvideo", "avi");
+    }
+  }
+  if (head.startsWith("II*\0") || head.startsWith("MM\0*")) {
+    return signature("image/tiff", "tif", "tiff");
+  }
+  if (head.startsWith("8BPS")) {
+    return signature("image/vnd.adobe.photoshop", "psd");
+  }
+  if (head.startsWith("BM") && bytes.length > 14 && bytes[14] >= 12) {
+    return signature("image/bmp", "bmp");
+  }
+  if (head.slice(4, 8) === "ftyp") {
+    return sniffIsoMedia(readAscii(bytes, 8, 4));
+  }
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    return readAscii(bytes, 0, 64).includes("webm")
+      ? signature("video/webm", "webm")
+      : signature("video/x-matroska", "mkv", "mka");
+  }
+  if (head.startsWith("fLaC")) {
+    return signature("audio/flac", "flac");
+  }
+  if (head.startsWith("OggS")) {
+    return signature("audio/ogg", "ogg", "oga", "opus");
+  }
+  if (head.startsWith("ID3")) {
+    return signature("audio/mpeg", "mp3");
+  }
+  if (isMpegFrame(bytes)) {
+    return signature("audio/mpeg", "mp3");
+  }
+  if (isAdtsFrame(bytes)) {
+    return signature("audio/aac", "aac");
+  }
+  if (head.startsWith("%PDF-")) {
+    return signature("application/pdf", "pdf");
+  }
+  if (head.startsWith("{\\rtf")) {
+    return signature("application/rtf", "rtf");
+  }
+  if (head.startsWith("PK\x03\x04")) {
+    return sniffZip(bytes);
+  }
+  // Compound files hold the older Office formats, which look alike
+  if (startsWith(bytes, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return signature("application/x-ole-storage", "doc", "xls", "ppt", "msg");
+  }
+  if (startsWith(bytes, [0x1f, 0x8b])) {
+    return signature("application/gzip", "gz", "tgz", "tar.gz");
+  }
+  if (head.startsWith("Rar!\x1a\x07")) {
+    return signature("application/vnd.rar", "rar");
+  }
+  if (startsWith(bytes, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])) {
+    return signature("application/x-7z-compressed", "7z");
+  }
+  // POSIX and GNU tar headers name their format after the file name field
+  if (readAscii(bytes, 257, 5) === "ustar") {
+    return signature("application/x-tar", "tar");
+  }
+  return null;
+};
+
+// Read the start of a file and detect its type from the content
+export const readFileSignature = async (file: {
+  slice: (start?: number, end?: number) => Blob;
+}): Promise<FileSignature | null> => {
+  try {
+    const buffer = await file.slice(0, SIGNATURE_READ_LIMIT).arrayBuffer();
+    return sniffFileSignature(new Uint8Array(buffer));
+  } catch (err) {
+    console.error("Failed to read file signature:", err);
+    return null;
+  }
+};
+
+// Check whether a file name's extension fits the detected content
+export const extensionMatchesSignature = (
+  extension: string,
+  fileSignature: FileSignature
+) => fileSignature.extensions.includes(extension.toLowerCase());
@@ -0,0 +1,64 @@
+export type SortMode = "manual" | "name" | "size" | "modified" | "type";
+
+export type SortDirection = "asc" | "desc";
+
+export const SORT_MODE_LABELS: { [mode in SortMode]: string } = {
+  manual: "Manual order",
+  name: "Name",
+  size: "Size",
+  modified: "Date modified",
+  type: "Type",
+};
+
+export interface SortableFile {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+}
+
+// Compares names the way people expect, so "img2" comes before "img10"
+const naturalCollator = new Intl.Collator(undefined, {
+  numeric: true,
+  sensitivity: "base",
+});
+
+export const compareNatural = (a: string, b: string): number =>
+  naturalCollator.compare(a, b);
+
+const compareBy: {
+  [mode in Exclude<SortMode, "manual">]: (
+    a: SortableFile,
+    b: SortableFile
+  ) => number;
+} = {
+  name: (a, b) => compareNatural(a.name, b.name),
+  size: (a, b) => a.size - b.size,
+  modified: (a, b) => a.lastModified - b.lastModified,
+  type: (a, b) => compareNatural(a.type, b.type),
+};
+
+// Sort files for display and numbering. Manual order keeps the list as it
+// is, and ties in the other modes fall back to the file name.
+export const sortFiles = <T extends SortableFile>(
+  files: T[],
+  mode: SortMode,
+  direction: SortDirection
+): T[] => {
+  if (mode === "manual") return files;
+
+  const sign = direction === "asc" ? 1 : -1;
+  const compare = compareBy[mode];
+  return [...files].sort(
+    (a, b) => sign * (compare(a, b) || compareNatural(a.name, b.name))
+  );
+};
+
+// Move an item to the position of another, shifting the rest along
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || to < 0) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
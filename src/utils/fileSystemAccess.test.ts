@@ -0,0 +1,156 @@
+import { renameBatchOnDisk, renameOnDisk } from "./fileSystemAccess";
+
+// A folder held in memory, with files that can move themselves when
+// canMove is set and otherwise have to be copied
+const createDirectory = (names: string[], canMove = true) => {
+  const files = new Map(names.map((name) => [name, `contents of ${name}`]));
+  let failWrites = false;
+
+  const createHandle = (name: string) => {
+    const handle = {
+      kind: "file",
+      name,
+      getFile: async () => files.get(handle.name),
+      move: canMove
+        ? async (newName: string) => {
+            files.set(newName, files.get(handle.name) as string);
+            files.delete(handle.name);
+            handle.name = newName;
+          }
+        : undefined,
+      createWritable: async () => {
+        let written = "";
+        return {
+          write: async (data: string) => {
+            if (failWrites) throw new Error("The disk is full");
+            written += data;
+          },
+          close: async () => {
+            files.set(handle.name, written);
+          },
+          abort: async () => undefined,
+        };
+      },
+    };
+    return handle;
+  };
+
+  const directory = {
+    getFileHandle: async (name: string, options?: { create?: boolean }) => {
+      if (!files.has(name)) {
+        if (!options?.create) throw new Error(`${name} not found`);
+        files.set(name, "");
+      }
+      return createHandle(name);
+    },
+    removeEntry: async (name: string) => {
+      files.delete(name);
+    },
+  } as unknown as FileSystemDirectoryHandle;
+
+  return {
+    directory,
+    files,
+    getHandle: (name: string) =>
+      createHandle(name) as unknown as FileSystemFileHandle,
+    failWrites: () => {
+      failWrites = true;
+    },
+  };
+};
+
+const renameAll = (
+  folder: ReturnType<typeof createDirectory>,
+  renames: [string, string][]
+) =>
+  renameBatchOnDisk(
+    renames.map(([name, newName]) => ({
+      handle: folder.getHandle(name),
+      directory: folder.directory,
+      newName,
+    }))
+  );
+
+describe("renameBatchOnDisk", () => {
+  test.each([true, false])(
+    "swaps names and shifts numbered names along (move: %s)",
+    async (canMove) => {
+      const folder = createDirectory(
+        ["a.jpg", "b.jpg", "IMG_1.jpg", "IMG_2.jpg"],
+        canMove
+      );
+      const results = await renameAll(folder, [
+        ["a.jpg", "b.jpg"],
+        ["b.jpg", "a.jpg"],
+        ["IMG_1.jpg", "IMG_2.jpg"],
+        ["IMG_2.jpg", "IMG_3.jpg"],
+      ]);
+
+      expect(results.map((result) => result?.status)).toEqual([
+        "success",
+        "success",
+        "success",
+        "success",
+      ]);
+      expect(Object.fromEntries(folder.files)).toEqual({
+        "b.jpg": "contents of a.jpg",
+        "a.jpg": "contents of b.jpg",
+        "IMG_2.jpg": "contents of IMG_1.jpg",
+        "IMG_3.jpg": "contents of IMG_2.jpg",
+      });
+    }
+  );
+
+  test("gives a file its old name back when the new one is taken", async () => {
+    const folder = createDirectory(["a.jpg", "b.jpg", "keep.jpg"]);
+    const results = await renameAll(folder, [
+      ["a.jpg", "keep.jpg"],
+      ["b.jpg", "c.jpg"],
+    ]);
+
+    expect(results[0]).toEqual({
+      status: "error",
+      message: "A file named keep.jpg already exists",
+    });
+    expect(results[1]?.status).toBe("success");
+    expect(Array.from(folder.files.keys()).sort()).toEqual([
+      "a.jpg",
+      "c.jpg",
+      "keep.jpg",
+    ]);
+  });
+
+  test("leaves files that weren't reached alone once cancelled", async () => {
+    const folder = createDirectory(["a.jpg", "b.jpg"]);
+    const controller = new AbortController();
+    controller.abort();
+    const results = await renameBatchOnDisk(
+      [
+        {
+          handle: folder.getHandle("a.jpg"),
+          directory: folder.directory,
+          newName: "b.jpg",
+        },
+      ],
+      { signal: controller.signal }
+    );
+    expect(results).toEqual([undefined]);
+    expect(Array.from(folder.files.keys())).toEqual(["a.jpg", "b.jpg"]);
+  });
+});
+
+describe("renameOnDisk", () => {
+  test("removes a partial copy when writing it fails", async () => {
+    const folder = createDirectory(["a.jpg"], false);
+    folder.failWrites();
+    await expect(
+      renameOnDisk(
+        { handle: folder.getHandle("a.jpg"), directory: folder.directory },
+        "b.jpg"
+      )
+    ).rejects.toThrow("The disk is full");
+    expect(Object.fromEntries(folder.files)).toEqual({
+      "a.jpg": "contents of a.jpg",
+    });
+  });
+});
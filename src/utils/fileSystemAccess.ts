@@ -0,0 +1,245 @@
+// Parts of the File System Access API that are not yet in the DOM typings
+export interface WritableFileStream {
+  write: (data: Blob | BufferSource) => Promise<void>;
+  close: () => Promise<void>;
+  abort: () => Promise<void>;
+}
+
+interface WritableFileHandle extends FileSystemFileHandle {
+  move?: (newName: string) => Promise<void>;
+  createWritable: () => Promise<WritableFileStream>;
+}
+
+interface IterableDirectoryHandle extends FileSystemDirectoryHandle {
+  values: () => AsyncIterableIterator<
+    FileSystemFileHandle | FileSystemDirectoryHandle
+  >;
+}
+
+interface DirectoryPickerWindow extends Window {
+  showDirectoryPicker?: (options?: {
+    mode?: "read" | "readwrite";
+  }) => Promise<FileSystemDirectoryHandle>;
+  showSaveFilePicker?: (options?: {
+    suggestedName?: string;
+  }) => Promise<FileSystemFileHandle>;
+}
+
+export interface DiskFile {
+  file: File;
+  handle: FileSystemFileHandle;
+  // The folder that holds the file, needed to rename or delete it
+  directory: FileSystemDirectoryHandle;
+  relativePath: string;
+}
+
+export type DiskRenameMethod = "moved" | "copied";
+
+export interface DiskRename extends Pick<DiskFile, "handle" | "directory"> {
+  newName: string;
+}
+
+export type DiskRenameResult =
+  | {
+      status: "success";
+      method: DiskRenameMethod;
+      handle: FileSystemFileHandle;
+    }
+  | { status: "error"; message: string };
+
+// Check whether the browser can open folders for in-place renaming
+export const isFileSystemAccessSupported = () =>
+  typeof (window as DirectoryPickerWindow).showDirectoryPicker === "function";
+
+// Ask the user for a folder with permission to rename files in it
+export const pickDirectory = async (): Promise<FileSystemDirectoryHandle> => {
+  const { showDirectoryPicker } = window as DirectoryPickerWindow;
+  if (!showDirectoryPicker) {
+    throw new Error("Opening folders is not supported in this browser");
+  }
+  return showDirectoryPicker({ mode: "readwrite" });
+};
+
+// Check whether the browser can write downloads straight to a file on disk
+export const isSaveFilePickerSupported = () =>
+  typeof (window as DirectoryPickerWindow).showSaveFilePicker === "function";
+
+// Ask the user where to save a file and open it for writing in parts
+export const pickSaveFile = async (
+  suggestedName: string
+): Promise<WritableFileStream> => {
+  const { showSaveFilePicker } = window as DirectoryPickerWindow;
+  if (!showSaveFilePicker) {
+    throw new Error("Saving files is not supported in this browser");
+  }
+  const handle = await showSaveFilePicker({ suggestedName });
+  return (handle as WritableFileHandle).createWritable();
+};
+
+// List every file in a folder and its subfolders
+export const listDirectoryFiles = async (
+  directory: FileSystemDirectoryHandle,
+  prefix: string = directory.name
+): Promise<DiskFile[]> => {
+  const files: DiskFile[] = [];
+  const iterator = (directory as IterableDirectoryHandle).values();
+
+  let next = await iterator.next();
+  while (!next.done) {
+    const handle = next.value;
+    const relativePath = `${prefix}/${handle.name}`;
+    if (handle.kind === "file") {
+      files.push({
+        file: await handle.getFile(),
+        handle,
+        directory,
+        relativePath,
+      });
+    } else {
+      files.push(...(await listDirectoryFiles(handle, relativePath)));
+    }
+    next = await iterator.next();
+  }
+
+  return files;
+};
+
+const fileExists = async (
+  directory: FileSystemDirectoryHandle,
+  name: string
+) => {
+  try {
+    await directory.getFileHandle(name);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rename a file on disk. Uses move() where the browser supports it and
+// otherwise copies the contents to a new file and deletes the original.
+export const renameOnDisk = async (
+  { handle, directory }: Pick<DiskFile, "handle" | "directory">,
+  newName: string
+): Promise<{ method: DiskRenameMethod; handle: FileSystemFileHandle }> => {
+  if (handle.name === newName) {
+    return { method: "moved", handle };
+  }
+
+  // Never overwrite a file that is already there, unless it only differs
+  // by letter case on a case-insensitive file system
+  if (
+    handle.name.toLowerCase() !== newName.toLowerCase() &&
+    (await fileExists(directory, newName))
+  ) {
+    throw new Error(`A file named ${newName} already exists`);
+  }
+
+  const writableHandle = handle as WritableFileHandle;
+  if (typeof writableHandle.move === "function") {
+    await writableHandle.move(newName);
+    return { method: "moved", handle };
+  }
+
+  // Copying onto a name that only differs by case would hit the original
+  // file on case-insensitive file systems
+  if (handle.name.toLowerCase() === newName.toLowerCase()) {
+    throw new Error("Changing only letter case needs move() support");
+  }
+
+  const oldName = handle.name;
+  const target = (await directory.getFileHandle(newName, {
+    create: true,
+  })) as WritableFileHandle;
+  try {
+    const writable = await target.createWritable();
+    await writable.write(await handle.getFile());
+    await writable.close();
+  } catch (err) {
+    // Don't leave a partial copy behind next to the original
+    await directory.removeEntry(newName).catch(() => undefined);
+    throw err;
+  }
+  await directory.removeEntry(oldName);
+  return { method: "copied", handle: target };
+};
+
+const getErrorMessage = (err: unknown) =>
+  err instanceof Error ? err.message : String(err);
+
+// Rename a batch of files in place. Every file is moved to a temporary name
+// first, so names can be swapped or shifted along (IMG_1 → IMG_2, IMG_2 →
+// IMG_3). A file whose new name is taken by a file outside the batch gets
+// its old name back. Cancelling stops moving files out of the way, but the
+// files already moved are still given their new names. Files that weren't
+// reached have no result.
+export const renameBatchOnDisk = async (
+  renames: DiskRename[],
+  {
+    signal,
+    onProgress,
+  }: { signal?: AbortSignal; onProgress?: (processed: number) => void } = {}
+): Promise<(DiskRenameResult | undefined)[]> => {
+  const results: (DiskRenameResult | undefined)[] = renames.map(
+    () => undefined
+  );
+  const staged: {
+    index: number;
+    handle: FileSystemFileHandle;
+    oldName: string;
+    copied: boolean;
+  }[] = [];
+  const batch = Date.now().toString(36);
+
+  for (let index = 0; index < renames.length && !signal?.aborted; index++) {
+    onProgress?.(Math.floor(index / 2));
+    const { handle, directory } = renames[index];
+    // Handles that move take their new name
+    const oldName = handle.name;
+    try {
+      const temp = await renameOnDisk(
+        { handle, directory },
+        `.ultra-rename-${batch}-${index}`
+      );
+      staged.push({
+        index,
+        handle: temp.handle,
+        oldName,
+        copied: temp.method === "copied",
+      });
+    } catch (err) {
+      results[index] = { status: "error", message: getErrorMessage(err) };
+    }
+  }
+
+  for (let i = 0; i < staged.length; i++) {
+    onProgress?.(Math.floor((staged.length + i) / 2));
+    const { index, handle, oldName, copied } = staged[i];
+    const { directory, newName } = renames[index];
+    try {
+      // Files in the batch have all moved out of the way by now
+      const { method, handle: renamed } = await renameOnDisk(
+        { handle, directory },
+        newName
+      );
+      results[index] = {
+        status: "success",
+        method: copied ? "copied" : method,
+        handle: renamed,
+      };
+    } catch (err) {
+      const message = getErrorMessage(err);
+      try {
+        await renameOnDisk({ handle, directory }, oldName);
+        results[index] = { status: "error", message };
+      } catch {
+        results[index] = {
+          status: "error",
+          message: `${message}. The file was left as ${handle.name}`,
+        };
+      }
+    }
+  }
+
+  return results;
+};
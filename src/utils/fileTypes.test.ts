@@ -0,0 +1,15 @@
+import { getFileCategory, getMimeType } from "./fileTypes";
+
+describe("getMimeType", () => {
+  test("guesses the type from the extension", () => {
+    expect(getMimeType("IMG_0001.JPG")).toBe("image/jpeg");
+    expect(getMimeType("README")).toBe("");
+    expect(getMimeType(".gitignore")).toBe("");
+  });
+
+  test("knows nothing of extensions named after Object properties", () => {
+    expect(getMimeType("weird.constructor")).toBe("");
+    expect(getMimeType("weird.toString")).toBe("");
+    expect(getFileCategory(getMimeType("weird.__proto__"))).toBe("other");
+  });
+});
@@ -0,0 +1,67 @@
+export type FileCategory = "image" | "video" | "audio" | "document" | "other";
+
+// Helper function to check if a MIME type belongs to a document
+const isDocumentType = (type: string) =>
+  type.includes("pdf") ||
+  type.includes("word") ||
+  type.includes("excel") ||
+  type.includes("text/plain");
+
+// Get the broad category of a file from its MIME type
+export const getFileCategory = (type: string): FileCategory => {
+  if (type.startsWith("image/")) return "image";
+  if (type.startsWith("video/")) return "video";
+  if (type.startsWith("audio/")) return "audio";
+  if (isDocumentType(type)) return "document";
+  return "other";
+};
+
+// MIME types browsers report for common extensions, used where files come
+// without a type (for example when read from disk by the CLI)
+const MIME_TYPES: { [extension: string]: string } = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  gif: "image/gif",
+  webp: "image/webp",
+  bmp: "image/bmp",
+  svg: "image/svg+xml",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  avif: "image/avif",
+  ico: "image/vnd.microsoft.icon",
+  mp4: "video/mp4",
+  m4v: "video/x-m4v",
+  mov: "video/quicktime",
+  webm: "video/webm",
+  mkv: "video/x-matroska",
+  avi: "video/x-msvideo",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  flac: "audio/flac",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/opus",
+  m4a: "audio/x-m4a",
+  aac: "audio/aac",
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  txt: "text/plain",
+  csv: "text/csv",
+  json: "application/json",
+  zip: "application/zip",
+};
+
+// Guess the MIME type of a file from its name, empty when unknown
+export const getMimeType = (fileName: string): string => {
+  const dotIndex = fileName.lastIndexOf(".");
+  if (dotIndex <= 0) return "";
+  const extension = fileName.slice(dotIndex + 1).toLowerCase();
+  return Object.prototype.hasOwnProperty.call(MIME_TYPES, extension)
+    ? MIME_TYPES[extension]
+    : "";
+};
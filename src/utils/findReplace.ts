@@ -0,0 +1,55 @@
+import { sanitizeFileName } from "./fileNames";
+
+export type MatchMode = "text" | "ignoreCase" | "regex";
+
+export interface FindReplaceOptions {
+  search: string;
+  replace: string;
+  matchMode: MatchMode;
+}
+
+export const MATCH_MODE_LABELS: { [mode in MatchMode]: string } = {
+  text: "Plain text",
+  ignoreCase: "Ignore case",
+  regex: "Regex",
+};
+
+// Escape characters that have a special meaning in regular expressions
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Build the search pattern, throwing if a regex is invalid
+export const buildSearchPattern = ({
+  search,
+  matchMode,
+}: Pick<FindReplaceOptions, "search" | "matchMode">): RegExp => {
+  if (matchMode === "regex") {
+    try {
+      return new RegExp(search, "g");
+    } catch (err) {
+      throw new Error(
+        err instanceof Error
+          ? err.message
+          : `Invalid regular expression: ${search}`
+      );
+    }
+  }
+  return new RegExp(
+    escapeRegExp(search),
+    matchMode === "ignoreCase" ? "gi" : "g"
+  );
+};
+
+// Apply a find-and-replace to a file name. Regex mode supports $1 style
+// backreferences, the plain-text modes insert the replacement literally.
+// If nothing would be left of the name, the original name is kept.
+export const applyFindReplace = (
+  fileName: string,
+  pattern: RegExp,
+  { replace, matchMode }: Pick<FindReplaceOptions, "replace" | "matchMode">
+): string => {
+  const replacement =
+    matchMode === "regex" ? replace : replace.replace(/\$/g, "$$$$");
+  const result = sanitizeFileName(fileName.replace(pattern, replacement));
+  return result.trim() || fileName;
+};
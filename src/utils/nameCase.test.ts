@@ -0,0 +1,41 @@
+import { applyCase, applyNameCase } from "./nameCase";
+
+describe("applyCase", () => {
+  test("splits words at separators and camelCase humps", () => {
+    expect(applyCase("my holiday_photoAlbum", "title")).toBe(
+      "My Holiday Photo Album"
+    );
+    expect(applyCase("my holiday_photoAlbum", "camel")).toBe(
+      "myHolidayPhotoAlbum"
+    );
+    expect(applyCase("my holiday_photoAlbum", "kebab")).toBe(
+      "my-holiday-photo-album"
+    );
+    expect(applyCase("my holiday_photoAlbum", "snake")).toBe(
+      "my_holiday_photo_album"
+    );
+  });
+
+  test("keeps dots inside names", () => {
+    expect(applyCase("Report v1.2 final", "kebab")).toBe("report-v1.2-final");
+    expect(applyCase("Report v1.2 final", "slug")).toBe("report-v1.2-final");
+    expect(applyCase("notes . draft.", "slug")).toBe("notes.draft");
+  });
+
+  test("transliterates slugs and keeps them URL-safe", () => {
+    expect(applyCase("Café Москва", "slug")).toBe("cafe-moskva");
+    expect(applyCase("写真 2026", "slug")).toBe("2026");
+    expect(applyCase("東京の写真", "slug")).toBe("file");
+  });
+
+  test("falls back to the name when nothing would be left", () => {
+    expect(applyCase("___", "kebab")).toBe("___");
+  });
+});
+
+describe("applyNameCase", () => {
+  test("leaves the extension alone", () => {
+    expect(applyNameCase("My Photo.JPG", "slug")).toBe("my-photo.JPG");
+    expect(applyNameCase("東京.tar.gz", "slug")).toBe("file.tar.gz");
+  });
+});
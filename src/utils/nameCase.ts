@@ -0,0 +1,196 @@
+import { splitFileName, withExtension } from "./fileNames";
+
+export type NameCase =
+  | "none"
+  | "lower"
+  | "upper"
+  | "title"
+  | "camel"
+  | "kebab"
+  | "snake"
+  | "slug";
+
+// Which name a case transform runs on
+export type NameCaseTarget = "original" | "generated";
+
+export const NAME_CASE_LABELS: { [nameCase in NameCase]: string } = {
+  none: "Keep case",
+  lower: "lowercase",
+  upper: "UPPERCASE",
+  title: "Title Case",
+  camel: "camelCase",
+  kebab: "kebab-case",
+  snake: "snake_case",
+  slug: "url-safe-slug",
+};
+
+export const NAME_CASE_TARGET_LABELS: {
+  [target in NameCaseTarget]: string;
+} = {
+  original: "on the original name",
+  generated: "on the new name",
+};
+
+// Letters that don't decompose into a base letter and accents
+const SPECIAL_LETTERS: { [letter: string]: string } = {
+  ß: "ss",
+  æ: "ae",
+  ø: "o",
+  œ: "oe",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+};
+
+// Cyrillic (Russian, Ukrainian) and Greek letters in Latin script
+const NON_LATIN_LETTERS: { [letter: string]: string } = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ґ: "g",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  є: "ye",
+  ж: "zh",
+  з: "z",
+  и: "i",
+  і: "i",
+  ї: "yi",
+  й: "y",
+  к: "k",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ф: "f",
+  х: "kh",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "shch",
+  ъ: "",
+  ы: "y",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+  α: "a",
+  β: "v",
+  γ: "g",
+  δ: "d",
+  ε: "e",
+  ζ: "z",
+  η: "i",
+  θ: "th",
+  ι: "i",
+  κ: "k",
+  λ: "l",
+  μ: "m",
+  ν: "n",
+  ξ: "x",
+  ο: "o",
+  π: "p",
+  ρ: "r",
+  σ: "s",
+  ς: "s",
+  τ: "t",
+  υ: "y",
+  φ: "f",
+  χ: "ch",
+  ψ: "ps",
+  ω: "o",
+};
+
+const COMBINING_MARKS = /[\u0300-\u036f]/g;
+
+// Write accented and non-Latin letters with plain Latin ones,
+// e.g. "Café Straße Москва" becomes "Cafe Strasse Moskva"
+export const transliterate = (value: string): string =>
+  Array.from(value.normalize("NFD").replace(COMBINING_MARKS, ""))
+    .map((char) => {
+      const lower = char.toLowerCase();
+      const latin = SPECIAL_LETTERS[lower] ?? NON_LATIN_LETTERS[lower];
+      if (latin === undefined) return char;
+      // Keep capitals, e.g. "Ж" becomes "Zh"
+      return lower !== char && latin
+        ? latin[0].toUpperCase() + latin.slice(1)
+        : latin;
+    })
+    .join("");
+
+// Split a name into words at separators and camelCase humps. Dots are
+// kept, so version numbers like "v1.2" stay as they are.
+const splitWords = (value: string): string[] =>
+  value
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s_\-,;:!?'"()[\]{}+&@#$%^=~`]+/)
+    .filter(Boolean);
+
+// Stem used for slugs of names with no letters or digits that can be
+// written in Latin script, such as Chinese or Japanese names
+const SLUG_FALLBACK = "file";
+
+const toSlug = (value: string) =>
+  transliterate(value)
+    .replace(/([a-z0-9])([A-Z])/g, "$1-$2")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+const capitalize = (word: string) =>
+  word.charAt(0).toUpperCase() + word.slice(1).toLowerCase();
+
+// Change the case of a name (without extension). Falls back to the value
+// itself if nothing would be left, except for slugs, which are always
+// URL-safe.
+export const applyCase = (value: string, nameCase: NameCase): string => {
+  const words = splitWords(value);
+  let result: string;
+  switch (nameCase) {
+    case "lower":
+      result = value.toLowerCase();
+      break;
+    case "upper":
+      result = value.toUpperCase();
+      break;
+    case "title":
+      result = words.map(capitalize).join(" ");
+      break;
+    case "camel":
+      result = words
+        .map((word, index) =>
+          index === 0 ? word.toLowerCase() : capitalize(word)
+        )
+        .join("");
+      break;
+    case "kebab":
+      result = words.map((word) => word.toLowerCase()).join("-");
+      break;
+    case "snake":
+      result = words.map((word) => word.toLowerCase()).join("_");
+      break;
+    case "slug":
+      result =
+        value.split(".").map(toSlug).filter(Boolean).join(".") || SLUG_FALLBACK;
+      break;
+    default:
+      result = value;
+  }
+  return result || value;
+};
+
+// Change the case of a file name, leaving its extension alone
+export const applyNameCase = (fileName: string, nameCase: NameCase): string => {
+  if (nameCase === "none") return fileName;
+  const { stem, extension } = splitFileName(fileName);
+  return withExtension(applyCase(stem, nameCase), extension);
+};
@@ -0,0 +1,45 @@
+import { checkFileName, fixFileName, validateNames } from "./nameValidation";
+
+const getKinds = (...args: Parameters<typeof checkFileName>) =>
+  checkFileName(...args).map(({ kind }) => kind);
+
+describe("checkFileName", () => {
+  test("checks names against the rules of each system", () => {
+    expect(getKinds("con.tar.gz", "", "windows")).toEqual(["reserved"]);
+    expect(getKinds("con.tar.gz", "", "linux")).toEqual([]);
+    expect(getKinds("a:b?.txt", "", "windows")).toEqual(["characters"]);
+    expect(getKinds("a:b?.txt", "", "linux")).toEqual([]);
+    expect(getKinds("notes. ", "", "windows")).toEqual(["trailing"]);
+    expect(getKinds(`${"é".repeat(128)}.txt`, "", "linux")).toEqual([
+      "name-length",
+    ]);
+  });
+});
+
+describe("fixFileName", () => {
+  test("changes names until they pass the checks", () => {
+    ["con.tar.gz", "a:b?.txt", "notes. ", `${"é".repeat(200)}.txt`].forEach(
+      (name) => {
+        const fixed = fixFileName(name, "folder", "portable");
+        expect(checkFileName(fixed, "folder", "portable")).toEqual([]);
+      }
+    );
+    expect(fixFileName("con.tar.gz", "", "windows")).toBe("con_.tar.gz");
+    expect(fixFileName("???", "", "windows")).toBe("untitled");
+  });
+});
+
+describe("validateNames", () => {
+  test("flags names that only differ by case on case-insensitive systems", () => {
+    const requests = [
+      { id: "1", folder: "", name: "Photo.jpg" },
+      { id: "2", folder: "", name: "photo.jpg" },
+    ];
+    expect(validateNames(requests, "linux").size).toBe(0);
+    expect(
+      Array.from(validateNames(requests, "windows").values()).map((issues) =>
+        issues.map(({ kind }) => kind)
+      )
+    ).toEqual([["case-clash"], ["case-clash"]]);
+  });
+});
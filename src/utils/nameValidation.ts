@@ -0,0 +1,285 @@
+import { NameRequest } from "./collisions";
+import { joinPath, splitFileName, withExtension } from "./fileNames";
+
+export type TargetPlatform = "portable" | "windows" | "macos" | "linux";
+
+export const TARGET_PLATFORM_LABELS: {
+  [platform in TargetPlatform]: string;
+} = {
+  portable: "Portable",
+  windows: "Windows",
+  macos: "macOS",
+  linux: "Linux",
+};
+
+// File system rules a name has to follow on a target system
+interface PlatformProfile {
+  invalidChars: string;
+  controlChars: boolean;
+  // Device names like CON and COM1, which Windows won't use for files
+  reservedNames: boolean;
+  // Windows drops trailing dots and spaces, so "photo." becomes "photo"
+  trailingDotsAndSpaces: boolean;
+  // Limits in UTF-8 bytes for one name and for the path inside the output
+  maxNameBytes: number;
+  maxPathBytes: number;
+  // Unicode form names should use, null when the system doesn't care
+  normalForm: "NFC" | null;
+  caseInsensitive: boolean;
+}
+
+const PLATFORM_PROFILES: { [platform in TargetPlatform]: PlatformProfile } = {
+  // The strictest rules of all the others, so names work everywhere
+  portable: {
+    invalidChars: '<>:"/\\|?*',
+    controlChars: true,
+    reservedNames: true,
+    trailingDotsAndSpaces: true,
+    maxNameBytes: 255,
+    maxPathBytes: 260,
+    normalForm: "NFC",
+    caseInsensitive: true,
+  },
+  windows: {
+    invalidChars: '<>:"/\\|?*',
+    controlChars: true,
+    reservedNames: true,
+    trailingDotsAndSpaces: true,
+    maxNameBytes: 255,
+    maxPathBytes: 260,
+    normalForm: "NFC",
+    caseInsensitive: true,
+  },
+  // APFS and HFS+ ignore case and Unicode normalisation by default
+  macos: {
+    invalidChars: "/:",
+    controlChars: false,
+    reservedNames: false,
+    trailingDotsAndSpaces: false,
+    maxNameBytes: 255,
+    maxPathBytes: 1024,
+    normalForm: "NFC",
+    caseInsensitive: true,
+  },
+  linux: {
+    invalidChars: "/",
+    controlChars: false,
+    reservedNames: false,
+    trailingDotsAndSpaces: false,
+    maxNameBytes: 255,
+    maxPathBytes: 4096,
+    normalForm: null,
+    caseInsensitive: false,
+  },
+};
+
+const RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[0-9]|LPT[0-9])$/i;
+
+const TRAILING_DOTS_AND_SPACES = /[. ]+$/;
+
+export type NameIssueKind =
+  | "characters"
+  | "reserved"
+  | "trailing"
+  | "name-length"
+  | "path-length"
+  | "normalization"
+  | "case-clash";
+
+export interface NameIssue {
+  kind: NameIssueKind;
+  message: string;
+}
+
+const getByteLength = (value: string) => new TextEncoder().encode(value).length;
+
+const isInvalidChar = (char: string, profile: PlatformProfile) =>
+  char === "\0" ||
+  profile.invalidChars.includes(char) ||
+  (profile.controlChars && char.charCodeAt(0) < 32);
+
+// Windows looks at the part before the first dot, so "con.tar.gz" is
+// reserved too
+const getDeviceName = (fileName: string) => fileName.split(".")[0].trim();
+
+// Key two paths share when the target system treats them as the same file
+export const getPathKey = (path: string, platform: TargetPlatform): string => {
+  const profile = PLATFORM_PROFILES[platform];
+  const normalized = profile.normalForm
+    ? path.normalize(profile.normalForm)
+    : path;
+  return profile.caseInsensitive ? normalized.toLowerCase() : normalized;
+};
+
+// Check a single name against the rules of the target system
+export const checkFileName = (
+  fileName: string,
+  folder: string,
+  platform: TargetPlatform
+): NameIssue[] => {
+  const profile = PLATFORM_PROFILES[platform];
+  const issues: NameIssue[] = [];
+
+  const invalidChars = Array.from(new Set(Array.from(fileName))).filter(
+    (char) => isInvalidChar(char, profile)
+  );
+  if (invalidChars.length > 0) {
+    issues.push({
+      kind: "characters",
+      message: `Contains characters that aren't allowed: ${invalidChars
+        .map((char) => (char.charCodeAt(0) < 32 ? "control character" : char))
+        .join(" ")}`,
+    });
+  }
+  if (!fileName || fileName === "." || fileName === "..") {
+    issues.push({
+      kind: "characters",
+      message: "Isn't a usable file name",
+    });
+  }
+  if (profile.reservedNames && RESERVED_NAMES.test(getDeviceName(fileName))) {
+    issues.push({
+      kind: "reserved",
+      message: `${getDeviceName(
+        fileName
+      ).toUpperCase()} is a reserved device name`,
+    });
+  }
+  if (
+    profile.trailingDotsAndSpaces &&
+    TRAILING_DOTS_AND_SPACES.test(fileName)
+  ) {
+    issues.push({
+      kind: "trailing",
+      message: "Ends with a dot or space, which Windows removes",
+    });
+  }
+
+  const nameBytes = getByteLength(fileName);
+  if (nameBytes > profile.maxNameBytes) {
+    issues.push({
+      kind: "name-length",
+      message: `Name is ${nameBytes} bytes long, the limit is ${profile.maxNameBytes}`,
+    });
+  }
+  const pathBytes = getByteLength(joinPath(folder, fileName));
+  if (pathBytes > profile.maxPathBytes) {
+    issues.push({
+      kind: "path-length",
+      message: `Path is ${pathBytes} bytes long, the limit is ${profile.maxPathBytes}`,
+    });
+  }
+  if (
+    profile.normalForm &&
+    fileName !== fileName.normalize(profile.normalForm)
+  ) {
+    issues.push({
+      kind: "normalization",
+      message: `Accented letters aren't in Unicode ${profile.normalForm} form, so the name may not match itself on other systems`,
+    });
+  }
+  return issues;
+};
+
+// Cut a name down to a number of bytes without splitting characters
+const truncateToBytes = (value: string, maxBytes: number) => {
+  let result = "";
+  let bytes = 0;
+  for (const char of Array.from(value)) {
+    bytes += getByteLength(char);
+    if (bytes > maxBytes) break;
+    result += char;
+  }
+  return result;
+};
+
+// Change a name so it passes checkFileName, keeping its extension where
+// possible. Clashes between names are left to the collision policy.
+export const fixFileName = (
+  fileName: string,
+  folder: string,
+  platform: TargetPlatform
+): string => {
+  const profile = PLATFORM_PROFILES[platform];
+  let name = profile.normalForm
+    ? fileName.normalize(profile.normalForm)
+    : fileName;
+  name = Array.from(name)
+    .filter((char) => !isInvalidChar(char, profile))
+    .join("");
+  if (profile.trailingDotsAndSpaces) {
+    name = name.replace(TRAILING_DOTS_AND_SPACES, "");
+  }
+  if (!name || name === "." || name === "..") {
+    name = "untitled";
+  }
+  if (profile.reservedNames && RESERVED_NAMES.test(getDeviceName(name))) {
+    name = name.replace(/^[^.]*/, (device) => `${device.trim()}_`);
+  }
+
+  const maxBytes = Math.min(
+    profile.maxNameBytes,
+    profile.maxPathBytes - getByteLength(folder ? `${folder}/` : "")
+  );
+  // Nothing can be done here about folders that are too long already
+  if (maxBytes > 0 && getByteLength(name) > maxBytes) {
+    const { stem, extension } = splitFileName(name);
+    const extensionBytes = extension ? getByteLength(`.${extension}`) : 0;
+    name =
+      extensionBytes < maxBytes
+        ? withExtension(
+            truncateToBytes(stem, maxBytes - extensionBytes),
+            extension
+          )
+        : truncateToBytes(name, maxBytes);
+    if (profile.trailingDotsAndSpaces) {
+      const { stem: cutStem, extension: cutExtension } = splitFileName(name);
+      name = withExtension(
+        cutStem.replace(TRAILING_DOTS_AND_SPACES, "") || "_",
+        cutExtension
+      );
+    }
+  }
+  return name;
+};
+
+// Check every name of a batch, including names that are different but
+// would still end up as the same file on the target system
+export const validateNames = (
+  requests: NameRequest[],
+  platform: TargetPlatform
+): Map<string, NameIssue[]> => {
+  const issues = new Map<string, NameIssue[]>();
+  const pathsByKey = new Map<string, string[]>();
+
+  requests.forEach(({ id, folder, name }) => {
+    const nameIssues = checkFileName(name, folder, platform);
+    if (nameIssues.length > 0) issues.set(id, nameIssues);
+
+    const path = joinPath(folder, name);
+    const key = getPathKey(path, platform);
+    const paths = pathsByKey.get(key) || [];
+    if (!paths.includes(path)) paths.push(path);
+    pathsByKey.set(key, paths);
+  });
+
+  requests.forEach(({ id, folder, name }) => {
+    const path = joinPath(folder, name);
+    const other = (pathsByKey.get(getPathKey(path, platform)) || []).find(
+      (otherPath) => otherPath !== path
+    );
+    if (!other) return;
+    issues.set(id, [
+      ...(issues.get(id) || []),
+      {
+        kind: "case-clash",
+        message:
+          other.toLowerCase() === path.toLowerCase()
+            ? `Is the same file as ${other}, which only differs by letter case`
+            : `Is the same file as ${other}, which only differs in how accents are encoded`,
+      },
+    ]);
+  });
+
+  return issues;
+};
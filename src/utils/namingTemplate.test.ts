@@ -0,0 +1,27 @@
+import { parseTemplate, renderTemplate } from "./namingTemplate";
+
+const file = {
+  name: "IMG_0042.JPG",
+  size: 2048,
+  type: "image/jpeg",
+  lastModified: new Date(2026, 6, 4, 9, 30).getTime(),
+  relativePath: "trip/day1/IMG_0042.JPG",
+};
+
+describe("renderTemplate", () => {
+  test("fills in the fields of a template", () => {
+    expect(
+      renderTemplate(
+        parseTemplate("{parent}_{modified:YYYYMMDD}_{base}-{n:000}.{ext}"),
+        { file, base: "trip", sequence: 7 }
+      )
+    ).toBe("day1_20260704_trip-007.JPG");
+  });
+});
+
+describe("parseTemplate", () => {
+  test("reports unknown fields, including names every object has", () => {
+    expect(parseTemplate("{nope}").errors).toHaveLength(1);
+    expect(parseTemplate("{constructor}_{toString}").errors).toHaveLength(2);
+  });
+});
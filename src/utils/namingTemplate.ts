@@ -0,0 +1,288 @@
+import { AudioTags } from "./audioTags";
+import { ExifData } from "./exif";
+import {
+  getExtension,
+  getNameWithoutExtension,
+  getParentFolder,
+  sanitizeFileName,
+} from "./fileNames";
+import { getFileCategory } from "./fileTypes";
+import { formatSequence, SequenceFormat } from "./numbering";
+
+export const DEFAULT_TEMPLATE = "{base}_{n}.{ext}";
+
+// The file properties a template can read from
+export interface TemplateFile {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  relativePath?: string;
+  exif?: ExifData | null;
+  audioTags?: AudioTags | null;
+}
+
+export interface TemplateContext {
+  file: TemplateFile;
+  base: string;
+  // 1-based position of the file in the batch
+  sequence: number;
+  // How {n} is counted and written, counting from 1 without one
+  numbering?: SequenceFormat;
+}
+
+export type TemplateSegment =
+  | { kind: "text"; value: string }
+  | { kind: "field"; name: string; arg?: string };
+
+export interface ParsedTemplate {
+  segments: TemplateSegment[];
+  errors: string[];
+}
+
+interface FieldDefinition {
+  description: string;
+  validateArg?: (arg?: string) => string | null;
+  resolve: (context: TemplateContext, arg?: string) => string;
+}
+
+// Format a date using YYYY, YY, MM, DD, HH, mm and ss placeholders
+export const formatDate = (date: Date, pattern: string): string => {
+  const pad = (value: number) => value.toString().padStart(2, "0");
+  const parts: { [key: string]: string } = {
+    YYYY: date.getFullYear().toString(),
+    YY: date.getFullYear().toString().slice(-2),
+    MM: pad(date.getMonth() + 1),
+    DD: pad(date.getDate()),
+    HH: pad(date.getHours()),
+    mm: pad(date.getMinutes()),
+    ss: pad(date.getSeconds()),
+  };
+  return pattern.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (match) => parts[match]);
+};
+
+const validatePadding = (name: string) => (arg?: string) =>
+  arg !== undefined && !/^0+$/.test(arg)
+    ? `Padding for {${name}} must be zeros, e.g. {${name}:000}`
+    : null;
+
+const validateDateFormat = (arg?: string) =>
+  arg !== undefined && !/YYYY|YY|MM|DD|HH|mm|ss/.test(arg)
+    ? `Date format "${arg}" must contain YYYY, YY, MM, DD, HH, mm or ss`
+    : null;
+
+const SIZE_UNITS: { [unit: string]: number } = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 * 1024,
+  gb: 1024 * 1024 * 1024,
+};
+
+// Format a size compactly so it can be used inside a file name
+const formatCompactSize = (bytes: number) => {
+  if (bytes < SIZE_UNITS.kb) return `${bytes}B`;
+  if (bytes < SIZE_UNITS.mb) return `${(bytes / SIZE_UNITS.kb).toFixed(1)}KB`;
+  if (bytes < SIZE_UNITS.gb) return `${(bytes / SIZE_UNITS.mb).toFixed(1)}MB`;
+  return `${(bytes / SIZE_UNITS.gb).toFixed(1)}GB`;
+};
+
+export const TEMPLATE_FIELDS: { [name: string]: FieldDefinition } = {
+  base: {
+    description: "The base name entered above",
+    resolve: ({ base }) => base,
+  },
+  original: {
+    description: "Original file name without its extension",
+    resolve: ({ file }) => getNameWithoutExtension(file.name),
+  },
+  n: {
+    description:
+      "Sequence number as set in the numbering options, pad with zeros like {n:000}",
+    validateArg: validatePadding("n"),
+    resolve: ({ sequence, numbering }, arg) =>
+      formatSequence(sequence, numbering, arg?.length),
+  },
+  ext: {
+    description: "Original file extension",
+    resolve: ({ file }) => getExtension(file.name),
+  },
+  type: {
+    description: "File category (image, video, audio, document, other)",
+    resolve: ({ file }) => getFileCategory(file.type),
+  },
+  size: {
+    description: "File size, optionally in a unit like {size:kb}",
+    validateArg: (arg) =>
+      arg !== undefined && !SIZE_UNITS[arg.toLowerCase()]
+        ? `Unknown size unit "${arg}", use b, kb, mb or gb`
+        : null,
+    resolve: ({ file }, arg) =>
+      arg
+        ? Math.round(file.size / SIZE_UNITS[arg.toLowerCase()]).toString()
+        : formatCompactSize(file.size),
+  },
+  modified: {
+    description: "Last modified date, e.g. {modified:YYYY-MM-DD}",
+    validateArg: validateDateFormat,
+    resolve: ({ file }, arg) =>
+      formatDate(new Date(file.lastModified), arg || "YYYY-MM-DD"),
+  },
+  parent: {
+    description: "Name of the folder the file came from",
+    resolve: ({ file }) => getParentFolder(file.relativePath),
+  },
+  "exif.date": {
+    description:
+      "Photo capture date, e.g. {exif.date:YYYYMMDD_HHmmss}. Falls back to the modified date",
+    validateArg: validateDateFormat,
+    resolve: ({ file }, arg) =>
+      formatDate(
+        new Date(file.exif?.dateTaken ?? file.lastModified),
+        arg || "YYYY-MM-DD"
+      ),
+  },
+  "exif.make": {
+    description: "Camera manufacturer",
+    resolve: ({ file }) => file.exif?.make || "",
+  },
+  "exif.model": {
+    description: "Camera model",
+    resolve: ({ file }) => file.exif?.model || "",
+  },
+  "exif.lens": {
+    description: "Lens model",
+    resolve: ({ file }) => file.exif?.lens || "",
+  },
+  "exif.gps": {
+    description:
+      "Text to insert when the photo has GPS data, e.g. {exif.gps:geo}",
+    resolve: ({ file }, arg) => (file.exif?.hasGps ? arg || "GPS" : ""),
+  },
+  artist: {
+    description: "Artist from the audio tags",
+    resolve: ({ file }) => file.audioTags?.artist || "",
+  },
+  album: {
+    description: "Album from the audio tags",
+    resolve: ({ file }) => file.audioTags?.album || "",
+  },
+  track: {
+    description: "Track number from the audio tags, e.g. {track:00}",
+    validateArg: validatePadding("track"),
+    resolve: ({ file }, arg) =>
+      file.audioTags?.track
+        ? file.audioTags.track.toString().padStart(arg ? arg.length : 0, "0")
+        : "",
+  },
+  title: {
+    description: "Track title from the audio tags",
+    resolve: ({ file }) => file.audioTags?.title || "",
+  },
+  year: {
+    description: "Release year from the audio tags",
+    resolve: ({ file }) => file.audioTags?.year || "",
+  },
+  genre: {
+    description: "Genre from the audio tags",
+    resolve: ({ file }) => file.audioTags?.genre || "",
+  },
+};
+
+// Split a template into text and field segments, collecting any errors
+export const parseTemplate = (template: string): ParsedTemplate => {
+  const segments: TemplateSegment[] = [];
+  const errors: string[] = [];
+
+  if (!template.trim()) {
+    return { segments, errors: ["Template cannot be empty"] };
+  }
+
+  let position = 0;
+  while (position < template.length) {
+    const open = template.indexOf("{", position);
+    const strayClose = template.indexOf("}", position);
+
+    if (strayClose !== -1 && (open === -1 || strayClose < open)) {
+      errors.push(`Unexpected "}" at position ${strayClose + 1}`);
+      break;
+    }
+
+    if (open === -1) {
+      segments.push({ kind: "text", value: template.slice(position) });
+      break;
+    }
+
+    if (open > position) {
+      segments.push({ kind: "text", value: template.slice(position, open) });
+    }
+
+    const close = template.indexOf("}", open);
+    if (close === -1) {
+      errors.push(`Missing "}" for token starting at position ${open + 1}`);
+      break;
+    }
+
+    const body = template.slice(open + 1, close);
+    const separator = body.indexOf(":");
+    const name = (separator === -1 ? body : body.slice(0, separator)).trim();
+    const arg = separator === -1 ? undefined : body.slice(separator + 1);
+    // Only the fields listed, not names like "constructor" that every
+    // object has
+    const field = Object.prototype.hasOwnProperty.call(TEMPLATE_FIELDS, name)
+      ? TEMPLATE_FIELDS[name]
+      : undefined;
+
+    if (!name) {
+      errors.push(`Empty token at position ${open + 1}`);
+    } else if (body.includes("{")) {
+      errors.push(`Missing "}" for token starting at position ${open + 1}`);
+    } else if (!field) {
+      errors.push(`Unknown token "{${name}}"`);
+    } else {
+      const argError = field.validateArg?.(arg) ?? null;
+      if (argError) errors.push(argError);
+    }
+
+    segments.push({ kind: "field", name, arg });
+    position = close + 1;
+  }
+
+  return { segments, errors };
+};
+
+// Check whether a parsed template reads a given field
+export const templateUsesField = (parsed: ParsedTemplate, name: string) =>
+  parsed.segments.some(
+    (segment) => segment.kind === "field" && segment.name === name
+  );
+
+// Fill in the fields of a parsed template, without tidying the result up
+// as a whole name, e.g. for text added to a name
+export const renderTemplateText = (
+  parsed: ParsedTemplate,
+  context: TemplateContext
+): string => {
+  if (parsed.errors.length > 0) {
+    throw new Error(parsed.errors[0]);
+  }
+
+  return parsed.segments
+    .map((segment) =>
+      segment.kind === "text"
+        ? segment.value
+        : TEMPLATE_FIELDS[segment.name].resolve(context, segment.arg)
+    )
+    .join("");
+};
+
+// Render a parsed template for a single file
+export const renderTemplate = (
+  parsed: ParsedTemplate,
+  context: TemplateContext
+): string => {
+  const name = renderTemplateText(parsed, context);
+
+  // A template like "{base}.{ext}" leaves a trailing dot for files
+  // without an extension
+  return sanitizeFileName(name).trim().replace(/\.+$/, "");
+};
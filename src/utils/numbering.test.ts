@@ -0,0 +1,76 @@
+import {
+  addSequenceNumber,
+  formatSequence,
+  getAutoPadding,
+  toLetters,
+} from "./numbering";
+
+describe("toLetters", () => {
+  test("counts like spreadsheet columns", () => {
+    expect([1, 2, 26, 27, 52, 53, 702, 703].map(toLetters)).toEqual([
+      "a",
+      "b",
+      "z",
+      "aa",
+      "az",
+      "ba",
+      "zz",
+      "aaa",
+    ]);
+  });
+});
+
+describe("formatSequence", () => {
+  test("counts from the start by the step with padding", () => {
+    const format = {
+      start: 10,
+      step: 5,
+      padding: 3,
+      style: "numbers" as const,
+    };
+    expect(
+      [1, 2, 3].map((sequence) => formatSequence(sequence, format))
+    ).toEqual(["010", "015", "020"]);
+  });
+
+  test("writes letters without padding and numbers below 1 in digits", () => {
+    const format = {
+      start: 0,
+      step: 1,
+      padding: 2,
+      style: "uppercase" as const,
+    };
+    expect(
+      [1, 2, 28].map((sequence) => formatSequence(sequence, format))
+    ).toEqual(["00", "A", "AA"]);
+    expect(
+      formatSequence(1, { start: -3, step: 1, padding: 2, style: "numbers" })
+    ).toBe("-03");
+  });
+
+  test("lets a template field set its own padding", () => {
+    expect(formatSequence(7, undefined, 3)).toBe("007");
+  });
+});
+
+describe("getAutoPadding", () => {
+  const format = { start: 1, step: 1, padding: 0, style: "numbers" as const };
+
+  test("pads to the widest number of the sequence", () => {
+    expect(getAutoPadding(9, format)).toBe(1);
+    expect(getAutoPadding(120, format)).toBe(3);
+    expect(getAutoPadding(3, { ...format, start: 98 })).toBe(3);
+    expect(getAutoPadding(0, format)).toBe(0);
+  });
+});
+
+describe("addSequenceNumber", () => {
+  test("adds the number before or after the name, keeping the extension", () => {
+    expect(addSequenceNumber("photo.tar.gz", "01", "start", "-")).toBe(
+      "01-photo.tar.gz"
+    );
+    expect(addSequenceNumber("photo.jpg", "b", "end", "/_")).toBe(
+      "photo_b.jpg"
+    );
+  });
+});
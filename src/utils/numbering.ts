@@ -0,0 +1,107 @@
+import { sanitizeFileName, splitFileName, withExtension } from "./fileNames";
+
+export type NumberStyle = "numbers" | "lowercase" | "uppercase";
+
+// Where the sequence number goes in a new name
+export type NumberPosition = "template" | "start" | "end";
+
+// When the count starts again from the first number
+export type NumberingRestart = "never" | "category" | "folder" | "day";
+
+export const NUMBER_STYLE_LABELS: { [style in NumberStyle]: string } = {
+  numbers: "1, 2, 3",
+  lowercase: "a, b … aa",
+  uppercase: "A, B … AA",
+};
+
+export const NUMBER_POSITION_LABELS: {
+  [position in NumberPosition]: string;
+} = {
+  template: "where {n} is",
+  start: "before the name",
+  end: "after the name",
+};
+
+export const NUMBERING_RESTART_LABELS: {
+  [restart in NumberingRestart]: string;
+} = {
+  never: "never",
+  category: "per file type",
+  folder: "per folder",
+  day: "per day",
+};
+
+// How the numbers of a sequence are counted and written
+export interface SequenceFormat {
+  start: number;
+  step: number;
+  // Digits numbers are padded to with zeros
+  padding: number;
+  style: NumberStyle;
+}
+
+export const DEFAULT_SEQUENCE_FORMAT: SequenceFormat = {
+  start: 1,
+  step: 1,
+  padding: 0,
+  style: "numbers",
+};
+
+// Write a positive number in letters the way spreadsheet columns are
+// named: a to z, then aa, ab and so on
+export const toLetters = (value: number): string => {
+  let letters = "";
+  for (let rest = value; rest > 0; rest = Math.floor((rest - 1) / 26)) {
+    letters = String.fromCharCode(97 + ((rest - 1) % 26)) + letters;
+  }
+  return letters;
+};
+
+// Number of the file at a 1-based position in its sequence
+export const getSequenceValue = (
+  sequence: number,
+  { start, step }: SequenceFormat
+): number => start + (sequence - 1) * step;
+
+// Write the number of the file at a 1-based position. Letters start from a
+// for 1 and aren't padded, and numbers below 1 are written in digits.
+export const formatSequence = (
+  sequence: number,
+  format: SequenceFormat = DEFAULT_SEQUENCE_FORMAT,
+  padding = format.padding
+): string => {
+  const value = getSequenceValue(sequence, format);
+  if (format.style !== "numbers" && value >= 1) {
+    const letters = toLetters(value);
+    return format.style === "uppercase" ? letters.toUpperCase() : letters;
+  }
+  const digits = String(Math.abs(value)).padStart(Math.max(padding, 0), "0");
+  return value < 0 ? `-${digits}` : digits;
+};
+
+// Padding that writes every number of a sequence of this length with the
+// same number of digits, so the names sort in order
+export const getAutoPadding = (count: number, format: SequenceFormat): number =>
+  count > 0
+    ? Math.max(
+        String(Math.abs(format.start)).length,
+        String(Math.abs(getSequenceValue(count, format))).length
+      )
+    : 0;
+
+// Add a number before or after a name, keeping the extension last
+export const addSequenceNumber = (
+  fileName: string,
+  number: string,
+  position: Exclude<NumberPosition, "template">,
+  separator: string
+): string => {
+  const { stem, extension } = splitFileName(fileName);
+  const cleanSeparator = sanitizeFileName(separator);
+  return withExtension(
+    position === "start"
+      ? `${number}${cleanSeparator}${stem}`
+      : `${stem}${cleanSeparator}${number}`,
+    extension
+  );
+};
@@ -0,0 +1,60 @@
+import {
+  ArchiveFormat,
+  CompressionLevel,
+  ExtractedFile,
+  ExtractionResult,
+  ManifestOptions,
+  RenameRecord,
+} from "../engine";
+
+// Messages between the page and the archive worker. Every job has an id,
+// and the worker answers with progress, output chunks and a final done,
+// error or cancelled message for that id.
+
+export interface ArchiveInput {
+  // Path of the file inside the archive
+  path: string;
+  file: Blob;
+  lastModified: number;
+}
+
+export type ArchiveJobRequest =
+  | {
+      type: "archive";
+      jobId: string;
+      entries: ArchiveInput[];
+      format: ArchiveFormat;
+      level: CompressionLevel;
+      // Records of the entries in the same order, written after them as a
+      // manifest and scripts with the hashes filled in
+      manifest?: { records: RenameRecord[]; options: ManifestOptions };
+    }
+  | {
+      type: "extract";
+      jobId: string;
+      // The path is the name of the archive
+      archive: ExtractedFile;
+      maxDepth: number;
+    };
+
+export type ArchiveRequest =
+  | ArchiveJobRequest
+  // The page has written a chunk, so the worker can send the next one
+  | { type: "chunk-written"; jobId: string }
+  | { type: "cancel"; jobId: string };
+
+export type ArchiveResponse =
+  | {
+      type: "progress";
+      jobId: string;
+      processed: number;
+      total: number;
+      // Files written so far when building an archive
+      entries?: number;
+    }
+  // Part of the archive being built, sent one at a time
+  | { type: "chunk"; jobId: string; chunk: Uint8Array }
+  // Extracting ends with the files read out of the archive
+  | { type: "done"; jobId: string; result?: ExtractionResult }
+  | { type: "error"; jobId: string; message: string }
+  | { type: "cancelled"; jobId: string };
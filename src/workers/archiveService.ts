@@ -0,0 +1,190 @@
+import {
+  ArchiveFormat,
+  ArchiveSink,
+  CompressionLevel,
+  DEFAULT_ARCHIVE_DEPTH,
+  DEFAULT_COMPRESSION_LEVEL,
+  ExtractionResult,
+  ManifestOptions,
+  RenameRecord,
+} from "../engine";
+import {
+  ArchiveInput,
+  ArchiveJobRequest,
+  ArchiveRequest,
+  ArchiveResponse,
+} from "./archiveProtocol";
+
+// Runs archive jobs in the archive worker and follows them from the page.
+// Cancelled jobs fail with an AbortError.
+
+export interface ArchiveTask<T> {
+  result: Promise<T>;
+  cancel: () => void;
+}
+
+interface JobCallbacks {
+  onProgress?: (processed: number, total: number, entries?: number) => void;
+  onChunk?: (chunk: Uint8Array) => Promise<void>;
+}
+
+interface RunningJob {
+  onMessage: (message: ArchiveResponse) => void;
+  onFailure: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+const jobs = new Map<string, RunningJob>();
+let jobCount = 0;
+
+// Start the worker the first time it's needed
+const getWorker = (): Worker => {
+  if (!worker) {
+    const newWorker = new Worker(
+      new URL("./archiveWorker.ts", import.meta.url)
+    );
+    newWorker.addEventListener(
+      "message",
+      (event: MessageEvent<ArchiveResponse>) =>
+        jobs.get(event.data.jobId)?.onMessage(event.data)
+    );
+    // A worker that fails to load or crashes takes its jobs with it
+    newWorker.addEventListener("error", (event) => {
+      const error = new Error(event.message || "The archive worker stopped");
+      jobs.forEach((job) => job.onFailure(error));
+      jobs.clear();
+      newWorker.terminate();
+      worker = null;
+    });
+    worker = newWorker;
+  }
+  return worker;
+};
+
+const startJob = (
+  request: ArchiveJobRequest,
+  { onProgress, onChunk }: JobCallbacks
+): ArchiveTask<ExtractionResult | undefined> => {
+  const activeWorker = getWorker();
+  const { jobId } = request;
+  const send = (message: ArchiveRequest) => activeWorker.postMessage(message);
+  let cancelled = false;
+  const cancel = () => {
+    cancelled = true;
+    send({ type: "cancel", jobId });
+  };
+
+  const result = new Promise<ExtractionResult | undefined>(
+    (resolve, reject) => {
+      const fail = (error: Error) => {
+        jobs.delete(jobId);
+        reject(error);
+      };
+      jobs.set(jobId, {
+        onFailure: fail,
+        onMessage: (message) => {
+          switch (message.type) {
+            case "progress":
+              onProgress?.(message.processed, message.total, message.entries);
+              break;
+            case "chunk":
+              // Chunks still on their way after cancelling aren't written
+              (onChunk && !cancelled
+                ? onChunk(message.chunk)
+                : Promise.resolve()
+              ).then(
+                () => send({ type: "chunk-written", jobId }),
+                (err) => {
+                  cancel();
+                  fail(err instanceof Error ? err : new Error(String(err)));
+                }
+              );
+              break;
+            case "done":
+              jobs.delete(jobId);
+              resolve(message.result);
+              break;
+            case "cancelled":
+              fail(
+                new DOMException("The archive job was cancelled", "AbortError")
+              );
+              break;
+            case "error":
+              fail(new Error(message.message));
+              break;
+          }
+        },
+      });
+    }
+  );
+
+  send(request);
+  return { result, cancel };
+};
+
+const createJobId = () => `archive-${++jobCount}`;
+
+// Build an archive in the worker, writing it to the sink as it's made. With
+// a manifest, one record per entry describes the rename.
+export const buildArchiveInWorker = (
+  entries: ArchiveInput[],
+  sink: ArchiveSink,
+  {
+    format = "zip",
+    level = DEFAULT_COMPRESSION_LEVEL,
+    manifest,
+    onProgress,
+  }: {
+    format?: ArchiveFormat;
+    level?: CompressionLevel;
+    manifest?: { records: RenameRecord[]; options: ManifestOptions };
+    onProgress?: (
+      processedSize: number,
+      totalSize: number,
+      entriesWritten: number
+    ) => void;
+  } = {}
+): ArchiveTask<void> => {
+  const task = startJob(
+    { type: "archive", jobId: createJobId(), entries, format, level, manifest },
+    {
+      onProgress: (processed, total, written) =>
+        onProgress?.(processed, total, written || 0),
+      onChunk: (chunk) => sink.write(chunk),
+    }
+  );
+  return { ...task, result: task.result.then(() => undefined) };
+};
+
+// Read every file out of an archive in the worker, opening the archives
+// inside it down to the given depth
+export const extractArchiveInWorker = (
+  file: File,
+  {
+    maxDepth = DEFAULT_ARCHIVE_DEPTH,
+    onProgress,
+  }: {
+    maxDepth?: number;
+    onProgress?: (extracted: number, total: number) => void;
+  } = {}
+): ArchiveTask<ExtractionResult> => {
+  const task = startJob(
+    {
+      type: "extract",
+      jobId: createJobId(),
+      archive: {
+        path: file.name,
+        blob: file,
+        lastModified: file.lastModified,
+      },
+      maxDepth,
+    },
+    { onProgress }
+  );
+  return {
+    ...task,
+    result: task.result.then(
+      (result) => result || { opened: false, files: [], problems: [] }
+    ),
+  };
+};
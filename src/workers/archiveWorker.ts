@@ -0,0 +1,143 @@
+import {
+  createManifestEntries,
+  createSha256,
+  extractArchive,
+  writeArchive,
+} from "../engine";
+import {
+  ArchiveJobRequest,
+  ArchiveRequest,
+  ArchiveResponse,
+} from "./archiveProtocol";
+
+// Builds and extracts archives away from the page, so big batches don't
+// freeze the UI. See archiveProtocol.ts for the messages.
+
+// The global scope of the worker, as the DOM typings only describe windows
+const workerScope = globalThis as unknown as {
+  postMessage: (message: ArchiveResponse) => void;
+  addEventListener: (
+    type: "message",
+    listener: (event: MessageEvent<ArchiveRequest>) => void
+  ) => void;
+};
+
+const controllers = new Map<string, AbortController>();
+// Jobs waiting for the page to write their last chunk
+const pendingChunks = new Map<string, () => void>();
+
+const post = (message: ArchiveResponse) => workerScope.postMessage(message);
+
+const buildArchive = async (
+  jobId: string,
+  {
+    entries,
+    format,
+    level,
+    manifest,
+  }: Extract<ArchiveJobRequest, { type: "archive" }>,
+  signal: AbortSignal
+) => {
+  // Files are hashed as they're written, for the manifest that follows them
+  const hashes = manifest ? entries.map(() => createSha256()) : [];
+  await writeArchive(
+    entries.map(({ path, file, lastModified }) => ({
+      path,
+      file: {
+        name: path,
+        size: file.size,
+        lastModified,
+        slice: (start?: number, end?: number) => file.slice(start, end),
+      },
+    })),
+    {
+      // Send one chunk at a time, so the archive is never held in memory
+      write: (chunk) =>
+        new Promise<void>((resolve) => {
+          pendingChunks.set(jobId, resolve);
+          post({ type: "chunk", jobId, chunk });
+        }),
+    },
+    format,
+    {
+      level,
+      signal,
+      onProgress: (processed, total, entries) =>
+        post({ type: "progress", jobId, processed, total, entries }),
+      onRead: (index, chunk) => hashes[index]?.update(chunk),
+      getExtraEntries:
+        manifest &&
+        (() =>
+          createManifestEntries(
+            manifest.records.map((record, index) => ({
+              ...record,
+              sha256: hashes[index].digest(),
+            })),
+            manifest.options
+          )),
+    }
+  );
+  post({ type: "done", jobId });
+};
+
+const extract = async (
+  jobId: string,
+  { archive, maxDepth }: Extract<ArchiveJobRequest, { type: "extract" }>,
+  signal: AbortSignal
+) => {
+  const result = await extractArchive(archive, {
+    maxDepth,
+    signal,
+    onProgress: (processed, total) =>
+      post({ type: "progress", jobId, processed, total }),
+  });
+  post({ type: "done", jobId, result });
+};
+
+const runJob = async (request: ArchiveJobRequest) => {
+  const { jobId } = request;
+  const controller = new AbortController();
+  controllers.set(jobId, controller);
+
+  try {
+    if (request.type === "archive") {
+      await buildArchive(jobId, request, controller.signal);
+    } else {
+      await extract(jobId, request, controller.signal);
+    }
+  } catch (err) {
+    if (controller.signal.aborted) {
+      post({ type: "cancelled", jobId });
+    } else {
+      console.error("Archive job failed:", err);
+      post({
+        type: "error",
+        jobId,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  } finally {
+    controllers.delete(jobId);
+    pendingChunks.delete(jobId);
+  }
+};
+
+workerScope.addEventListener("message", ({ data: request }) => {
+  switch (request.type) {
+    case "archive":
+    case "extract":
+      runJob(request);
+      break;
+    case "chunk-written":
+    case "cancel": {
+      if (request.type === "cancel") {
+        controllers.get(request.jobId)?.abort();
+      }
+      // A cancelled job stops at the next chunk
+      const resume = pendingChunks.get(request.jobId);
+      pendingChunks.delete(request.jobId);
+      resume?.();
+      break;
+    }
+  }
+});